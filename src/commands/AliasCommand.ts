@@ -0,0 +1,143 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { AliasService } from '../services/AliasService';
+import { expandHomeDir } from '../utils/patterns';
+
+export class AliasCommand {
+  private aliases: AliasService;
+
+  constructor(aliases: AliasService) {
+    this.aliases = aliases;
+  }
+
+  getCommand(): Command {
+    const command = new Command('alias')
+      .description('Manage aliases and macros for Echo commands');
+
+    command
+      .command('set <name> <command>')
+      .description('Define an alias; $1…$9 and $@ stand for the words typed after it (replaces an existing alias)')
+      .option('-d, --description <text>', 'What the alias does')
+      .action((name: string, cmd: string, options: { description?: string }) => {
+        this.setAlias(name, cmd, options.description);
+      });
+
+    command
+      .command('list')
+      .alias('ls')
+      .description('List aliases')
+      .action(() => {
+        this.listAliases();
+      });
+
+    command
+      .command('rm <name>')
+      .description('Remove an alias')
+      .action((name: string) => {
+        this.removeAlias(name);
+      });
+
+    command
+      .command('export [file]')
+      .description('Write all aliases as a JSON pack, to a file or stdout')
+      .action((file?: string) => {
+        this.exportAliases(file);
+      });
+
+    command
+      .command('import <file>')
+      .description('Add the aliases of a JSON pack written by "e alias export"')
+      .option('-f, --force', 'Replace aliases that already exist')
+      .action((file: string, options: { force?: boolean }) => {
+        this.importAliases(file, options.force ?? false);
+      });
+
+    return command;
+  }
+
+  private setAlias(name: string, cmd: string, description?: string): void {
+    try {
+      const alias = this.aliases.set(name, cmd, description);
+      console.log(chalk.green(`✅ Alias ${alias.name} set: ${alias.command}`));
+      console.log(chalk.gray(`Run it with: e ${alias.name}  (or :${alias.name} from the dashboard)`));
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error setting alias:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private listAliases(): void {
+    const aliases = this.aliases.list();
+
+    if (aliases.length === 0) {
+      console.log(chalk.yellow('⚠️  No aliases defined'));
+      console.log(chalk.gray('Add one with: e alias set <name> "<command>"'));
+      return;
+    }
+
+    console.log(chalk.cyan(`🔗 Aliases (${aliases.length})`));
+    console.log('─'.repeat(40));
+    for (const alias of aliases) {
+      console.log(`${chalk.blue(alias.name)} ${alias.command}`);
+      if (alias.description) {
+        console.log(chalk.gray(`  ${alias.description}`));
+      }
+    }
+  }
+
+  private removeAlias(name: string): void {
+    if (this.aliases.remove(name)) {
+      console.log(chalk.green(`✅ Alias ${name} removed`));
+    } else {
+      console.error(chalk.red(`❌ Unknown alias "${name}"`));
+      process.exitCode = 1;
+    }
+  }
+
+  private exportAliases(file?: string): void {
+    try {
+      const json = JSON.stringify(this.aliases.export(), null, 2) + '\n';
+      if (!file) {
+        process.stdout.write(json);
+        return;
+      }
+
+      const target = resolve(expandHomeDir(file));
+      writeFileSync(target, json);
+      console.log(chalk.green(`✅ Exported ${this.aliases.list().length} aliases to ${target}`));
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error exporting aliases:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private importAliases(file: string, force: boolean): void {
+    try {
+      const source = resolve(expandHomeDir(file));
+      if (!existsSync(source)) {
+        throw new Error(`File not found: ${source}`);
+      }
+
+      let pack: unknown;
+      try {
+        pack = JSON.parse(readFileSync(source, 'utf8'));
+      } catch (error: unknown) {
+        throw new Error(`Invalid JSON in ${source}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const result = this.aliases.import(pack, force);
+      console.log(chalk.green(`✅ Imported ${result.added.length + result.replaced.length} aliases from ${source}`));
+      if (result.replaced.length > 0) {
+        console.log(chalk.gray(`Replaced: ${result.replaced.join(', ')}`));
+      }
+      if (result.skipped.length > 0) {
+        console.log(chalk.yellow(`⚠️  Kept existing: ${result.skipped.join(', ')} (use --force to replace them)`));
+      }
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error importing aliases:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+}
@@ -1,7 +1,26 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import chalk from 'chalk';
+import inquirer from 'inquirer';
 import { ApiService } from '../services/ApiService';
 import { ConfigService } from '../services/ConfigService';
+import { CommandPolicyService, buildEchoChainSubjects, buildFileSubject, buildPolicySubject, buildSystemChainSubjects } from '../services/CommandPolicyService';
+import { ExecutionLedger } from '../services/ExecutionLedger';
+import { ResultOutbox } from '../services/ResultOutbox';
+import { ListenerDaemon } from '../services/ListenerDaemon';
+import { CommandSignatureService } from '../services/CommandSignatureService';
+import { CommandApprovalService } from '../services/CommandApprovalService';
+import { AuditLog, CommandAuditRecord } from '../services/AuditLog';
+import { CommandSandbox } from '../services/CommandSandbox';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { ScheduleService } from '../services/ScheduleService';
+import { AliasService } from '../services/AliasService';
+import { CapabilityDetector, CapabilityDocument, ToolName } from '../services/CapabilityDetector';
+import { FILE_OPERATIONS, FileOperation } from '../services/FileTransferService';
+import { ListenerLog, LOG_FORMATS, LogFormat } from '../services/ListenerLog';
+import { expandHomeDir } from '../utils/patterns';
+import { ListenerStatus } from '../remote-command-handler';
+import * as fs from 'fs';
+import { join, resolve } from 'path';
 
 const RemoteCommandHandler = require('../remote-command-handler');
 
@@ -9,10 +28,20 @@ export class RemoteCommand {
   private apiService: ApiService;
   private configService: ConfigService;
   private remoteHandler: any = null;
+  private daemon: ListenerDaemon;
+  private workspaces: WorkspaceService;
+  private schedules: ScheduleService;
+  private aliases: AliasService;
+  private listenerLog: ListenerLog;
 
   constructor(apiService: ApiService, configService: ConfigService) {
     this.apiService = apiService;
     this.configService = configService;
+    this.daemon = new ListenerDaemon(join(configService.getConfigDir(), 'remote'));
+    this.workspaces = new WorkspaceService(configService);
+    this.schedules = new ScheduleService(configService);
+    this.aliases = new AliasService(configService);
+    this.listenerLog = new ListenerLog();
   }
 
   getCommand(): Command {
@@ -24,8 +53,46 @@ export class RemoteCommand {
       .command('start')
       .description('Start listening for remote commands from dashboard')
       .option('-u, --url <url>', 'Dashboard URL', 'https://app.qirvo.ai')
+      .option('-p, --policy <file>', 'Command policy file (default: ~/.echo-cli/remote-policy.json)')
+      .option('--max-output <bytes>', 'Maximum output streamed per command before truncation', '1048576')
+      .option('--max-file-size <bytes>', 'Largest file the dashboard may download or upload', '10485760')
+      .option('-t, --transport <mode>', 'Command transport: auto, sse or polling', 'auto')
+      .option('-c, --concurrency <n>', 'Maximum number of commands to run in parallel', '4')
+      .option('-l, --limit <command=n>', 'Per-command concurrency limit, e.g. npm=1 (repeatable)', collectLimit, {})
+      .option('--max-retries <n>', 'Consecutive connection failures before giving up (0 = never)', '20')
+      .option('--trust-key <file>', 'Pin this PEM public key as the dashboard command-signing key')
+      .option('--allow-unsigned', 'Accept commands without verifying their signature (not recommended)')
+      .option('--approve', 'Ask in this terminal before running each system command')
+      .option('--approve-echo', 'With --approve, also ask before running Echo (:) commands')
+      .option('--approval-timeout <seconds>', 'Seconds to wait for an approval before refusing the command', '120')
+      .option('--sandbox', 'Run system commands without a shell, with a scrubbed environment and resource limits')
+      .option('--workspace-root <dir>', 'Extra directory sandboxed commands may run in, besides named workspaces (repeatable)', collectValue, [])
+      .option('--allow-env <name>', 'Extra environment variable passed to sandboxed commands (repeatable)', collectValue, [])
+      .option('--cpu-limit <seconds>', 'CPU time limit for each sandboxed command')
+      .option('--memory-limit <mb>', 'Memory limit in MB for each sandboxed command')
+      .option('--terminal-idle-timeout <minutes>', 'Close interactive terminal sessions after this many idle minutes', '10')
+      .option('--capability-refresh <minutes>', 'Minutes between re-checks of installed tools and free disk', '10')
+      .option('--metrics-port <port>', 'Serve /healthz, /status and /metrics on this local port')
+      .option('--metrics-host <host>', 'Address the metrics endpoint binds to', '127.0.0.1')
+      .option('--log-format <format>', 'Listener output: pretty, or json for one event per line', 'pretty')
+      .option('-q, --quiet', 'Only print warnings and errors')
+      .option('--tui', 'Show a full-screen view of in-flight commands, recent history and connection health')
+      .option('--detach', 'Run the listener in the background')
+      .addOption(new Option('--daemon-child').hideHelp())
       .action(async (options) => {
-        await this.startRemoteListener(options.url);
+        if (options.detach && options.approve) {
+          console.log(chalk.red('❌ --approve needs an interactive terminal and cannot be used with --detach'));
+          return;
+        }
+        if (options.tui && (options.detach || options.approve)) {
+          console.log(chalk.red(`❌ --tui takes over the terminal and cannot be used with ${options.detach ? '--detach' : '--approve'}`));
+          return;
+        }
+        if (options.detach) {
+          await this.startDetached(getStartArgs());
+          return;
+        }
+        await this.startRemoteListener(options.url, options);
       });
 
     // Stop remote listener
@@ -36,6 +103,24 @@ export class RemoteCommand {
         await this.stopRemoteListener();
       });
 
+    // Restart background listener
+    command
+      .command('restart')
+      .description('Restart the background listener with its previous options')
+      .action(async () => {
+        await this.restartRemoteListener();
+      });
+
+    // Show listener log
+    command
+      .command('logs')
+      .description('Show the background listener log')
+      .option('-n, --lines <n>', 'Number of lines to show', '50')
+      .option('-f, --follow', 'Keep printing new log lines')
+      .action(async (options: { lines: string; follow?: boolean }) => {
+        await this.showLogs(parseInt(options.lines, 10) || 50, options.follow);
+      });
+
     // Show remote status
     command
       .command('status')
@@ -44,6 +129,29 @@ export class RemoteCommand {
         await this.showStatus();
       });
 
+    // Capability document
+    command
+      .command('capabilities')
+      .description('Show the tools, shells, workspaces and disk space advertised to the dashboard')
+      .option('--json', 'Print the raw capability document')
+      .action(async (options: { json?: boolean }) => {
+        await this.showCapabilities(options.json);
+      });
+
+    // Audit history
+    command
+      .command('history')
+      .description('Show commands the remote listener has handled, from the local audit log')
+      .option('-s, --since <time>', 'Only commands since a duration ago (30m, 2h, 7d) or a date', parseSince)
+      .option('--failed', 'Only commands that did not succeed')
+      .option('--session <id>', 'Only commands from one listener session (id or prefix)')
+      .option('-n, --limit <n>', 'Show only the most recent n commands (default 50 for the table)')
+      .option('-f, --format <format>', 'Output format: table, json or csv', 'table')
+      .option('-o, --output <file>', 'Write the JSON or CSV export to a file')
+      .action((options: { since?: Date; failed?: boolean; session?: string; limit?: string; format: string; output?: string }) => {
+        this.showHistory(options);
+      });
+
     // Test remote connection
     command
       .command('test')
@@ -53,19 +161,274 @@ export class RemoteCommand {
         await this.testConnection(options.url);
       });
 
+    // Command policy
+    const policyCommand = command
+      .command('policy')
+      .description('Inspect and dry-run the local command policy');
+
+    policyCommand
+      .command('test <cmd>')
+      .description('Check whether a command would be allowed by the policy')
+      .option('-p, --policy <file>', 'Command policy file (default: ~/.echo-cli/remote-policy.json)')
+      .option('-d, --cwd <dir>', 'Working directory the command would run in')
+      .action((cmd: string, options: { policy?: string; cwd?: string }) => {
+        this.testPolicy(cmd, options);
+      });
+
+    policyCommand
+      .command('show')
+      .description('Show the active command policy')
+      .option('-p, --policy <file>', 'Command policy file (default: ~/.echo-cli/remote-policy.json)')
+      .action((options: { policy?: string }) => {
+        this.showPolicy(options.policy);
+      });
+
+    // Named workspaces
+    const workspaceCommand = command
+      .command('workspace')
+      .description('Manage named workspaces the dashboard can run commands in');
+
+    workspaceCommand
+      .command('add <name> <path>')
+      .description('Register a directory under a name (replaces an existing workspace with that name)')
+      .option('-e, --env <KEY=VALUE>', 'Default environment variable for commands in this workspace (repeatable)', collectEnv, {})
+      .option('-p, --policy <file>', 'Command policy applied to this workspace in addition to the global one')
+      .action((name: string, dirPath: string, options: { env: Record<string, string>; policy?: string }) => {
+        this.addWorkspace(name, dirPath, options);
+      });
+
+    workspaceCommand
+      .command('list')
+      .alias('ls')
+      .description('List named workspaces')
+      .action(() => {
+        this.listWorkspaces();
+      });
+
+    workspaceCommand
+      .command('rm <name>')
+      .description('Remove a named workspace')
+      .action((name: string) => {
+        this.removeWorkspace(name);
+      });
+
+    // Scheduled jobs
+    const scheduleCommand = command
+      .command('schedule')
+      .description('Manage cron-style jobs the running listener executes on its own');
+
+    scheduleCommand
+      .command('add <cron> <command>')
+      .description('Schedule a system or Echo (:) command, e.g. add "0 9 * * 1-5" ":task list"')
+      .option('-n, --name <name>', 'Label shown in listings and sent with results')
+      .option('-d, --cwd <dir>', 'Working directory (relative to the workspace with --workspace)')
+      .option('-w, --workspace <name>', 'Run in a named workspace')
+      .option('-t, --timeout <seconds>', 'Timeout for each run')
+      .action((cron: string, cmd: string, options: { name?: string; cwd?: string; workspace?: string; timeout?: string }) => {
+        this.addSchedule(cron, cmd, options);
+      });
+
+    scheduleCommand
+      .command('list')
+      .alias('ls')
+      .description('List scheduled jobs with their next run')
+      .action(() => {
+        this.listSchedules();
+      });
+
+    scheduleCommand
+      .command('rm <id>')
+      .description('Remove a scheduled job')
+      .action((id: string) => {
+        this.removeSchedule(id);
+      });
+
+    scheduleCommand
+      .command('pause <id>')
+      .description('Stop running a job without removing it')
+      .action((id: string) => {
+        this.pauseSchedule(id, true);
+      });
+
+    scheduleCommand
+      .command('resume <id>')
+      .description('Resume a paused job')
+      .action((id: string) => {
+        this.pauseSchedule(id, false);
+      });
+
+    // Remembered approvals
+    const approvalsCommand = command
+      .command('approvals')
+      .description('Manage commands that are always allowed in --approve mode');
+
+    approvalsCommand
+      .command('list')
+      .alias('ls')
+      .description('List always-allow patterns saved on this machine')
+      .action(() => {
+        this.listApprovals();
+      });
+
+    approvalsCommand
+      .command('rm <number>')
+      .description('Remove an always-allow pattern by its number in the list')
+      .action((number: string) => {
+        this.removeApproval(number);
+      });
+
+    // Command-signing key
+    const trustCommand = command
+      .command('trust')
+      .description('Manage the pinned dashboard command-signing keys');
+
+    trustCommand
+      .command('show')
+      .description('Show the pinned signing keys')
+      .action(() => {
+        this.showTrust();
+      });
+
+    trustCommand
+      .command('pin <file>')
+      .description('Pin a PEM public key as the signing key for a dashboard')
+      .option('-u, --url <url>', 'Dashboard URL', 'https://app.qirvo.ai')
+      .action((file: string, options: { url: string }) => {
+        this.pinTrustKey(options.url, file);
+      });
+
+    trustCommand
+      .command('forget')
+      .description('Remove the pinned signing key for a dashboard (it is re-pinned on next start)')
+      .option('-u, --url <url>', 'Dashboard URL', 'https://app.qirvo.ai')
+      .option('-y, --yes', 'Skip confirmation')
+      .action(async (options: { url: string; yes?: boolean }) => {
+        await this.forgetTrustKey(options.url, options.yes);
+      });
+
+    // Result outbox
+    const outboxCommand = command
+      .command('outbox')
+      .description('Inspect and manage command results waiting to be reported');
+
+    outboxCommand
+      .command('list')
+      .alias('ls')
+      .description('List results that have not been delivered to the dashboard yet')
+      .action(() => {
+        this.listOutbox();
+      });
+
+    outboxCommand
+      .command('flush')
+      .description('Retry delivering all pending results now')
+      .action(async () => {
+        await this.flushOutbox();
+      });
+
+    outboxCommand
+      .command('purge [commandId]')
+      .description('Discard pending results (all of them, or one by command ID)')
+      .option('-y, --yes', 'Skip confirmation')
+      .action(async (commandId: string | undefined, options: { yes?: boolean }) => {
+        await this.purgeOutbox(commandId, options.yes);
+      });
+
     return command;
   }
 
-  private async startRemoteListener(dashboardUrl: string): Promise<void> {
+  private async startRemoteListener(
+    dashboardUrl: string,
+    options: {
+      policy?: string;
+      maxOutput?: string;
+      maxFileSize?: string;
+      transport?: string;
+      concurrency?: string;
+      limit?: Record<string, number>;
+      maxRetries?: string;
+      trustKey?: string;
+      allowUnsigned?: boolean;
+      approve?: boolean;
+      approveEcho?: boolean;
+      approvalTimeout?: string;
+      sandbox?: boolean;
+      workspaceRoot?: string[];
+      allowEnv?: string[];
+      cpuLimit?: string;
+      memoryLimit?: string;
+      capabilityRefresh?: string;
+      terminalIdleTimeout?: string;
+      metricsPort?: string;
+      metricsHost?: string;
+      logFormat?: string;
+      quiet?: boolean;
+      tui?: boolean;
+      daemonChild?: boolean;
+    }
+  ): Promise<void> {
     try {
-      console.log(chalk.cyan('🚀 Starting remote command listener...'));
+      const logFormat = (options.logFormat || 'pretty') as LogFormat;
+      if (!LOG_FORMATS.includes(logFormat)) {
+        console.log(chalk.red(`❌ Unknown log format "${options.logFormat}". Use ${LOG_FORMATS.join(' or ')}.`));
+        return;
+      }
+      if (options.tui && (logFormat === 'json' || options.quiet)) {
+        console.log(chalk.red('❌ --tui cannot be combined with --log-format json or --quiet'));
+        return;
+      }
+      if (options.tui && !process.stdout.isTTY) {
+        console.log(chalk.red('❌ --tui needs an interactive terminal'));
+        return;
+      }
+      const log = new ListenerLog({ format: logFormat, quiet: options.quiet });
+      this.listenerLog = log;
+
+      log.info('listener.starting', chalk.cyan('🚀 Starting remote command listener...'));
+
+      // Check if already running, in this process or another one
+      const runningPid = this.daemon.getRunningPid();
+      if ((this.remoteHandler && this.remoteHandler.isActive) || (runningPid && runningPid !== process.pid)) {
+        log.warn('listener.running', chalk.yellow(`⚠️  Remote listener is already running${runningPid ? ` (pid ${runningPid})` : ''}`), { pid: runningPid });
+        log.warn('listener.running', chalk.gray('Use "e remote status" to inspect it or "e remote stop" to stop it'));
+        return;
+      }
 
-      // Check if already running
-      if (this.remoteHandler && this.remoteHandler.isActive) {
-        console.log(chalk.yellow('⚠️  Remote listener is already running'));
+      const maxRetries = parseInt(options.maxRetries || '20', 10);
+      if (Number.isNaN(maxRetries) || maxRetries < 0) {
+        console.log(chalk.red(`❌ Invalid --max-retries "${options.maxRetries}". Use a number of 0 or more.`));
         return;
       }
 
+      const metricsPort = options.metricsPort === undefined ? undefined : parseInt(options.metricsPort, 10);
+      if (metricsPort !== undefined && (Number.isNaN(metricsPort) || metricsPort < 0 || metricsPort > 65535)) {
+        console.log(chalk.red(`❌ Invalid --metrics-port "${options.metricsPort}". Use a port number.`));
+        return;
+      }
+
+      const transport = options.transport || 'auto';
+      if (!['auto', 'sse', 'polling'].includes(transport)) {
+        console.log(chalk.red(`❌ Unknown transport "${transport}". Use auto, sse or polling.`));
+        return;
+      }
+
+      const approvalTimeout = parseInt(options.approvalTimeout || '120', 10);
+      if (options.approve && !(approvalTimeout > 0)) {
+        console.log(chalk.red(`❌ Invalid --approval-timeout "${options.approvalTimeout}". Use a number of seconds greater than 0.`));
+        return;
+      }
+
+      // Sandbox for system commands
+      let sandbox: CommandSandbox | undefined;
+      if (options.sandbox) {
+        sandbox = this.createSandbox(options);
+        if (!sandbox) {
+          return;
+        }
+      } else if (options.workspaceRoot?.length || options.allowEnv?.length || options.cpuLimit || options.memoryLimit) {
+        log.warn('listener.options', chalk.yellow('⚠️  --workspace-root, --allow-env, --cpu-limit and --memory-limit only apply with --sandbox'));
+      }
+
       // Get authentication token
       const token = await this.getAuthToken();
       if (!token) {
@@ -73,53 +436,227 @@ export class RemoteCommand {
         return;
       }
 
+      // Load the local command policy
+      const policy = this.loadPolicy(options.policy);
+      if (policy.isEnabled()) {
+        log.info('policy.loaded', chalk.gray(`🛡️  Command policy: ${policy.getPolicyPath()}`), { path: policy.getPolicyPath() });
+      } else {
+        log.warn('policy.missing', chalk.yellow(`⚠️  No command policy found at ${policy.getPolicyPath()} - all commands will be allowed`), { path: policy.getPolicyPath() });
+      }
+
+      // Pin the dashboard signing key and verify every command against it
+      const signatures = await this.loadSignatures(dashboardUrl, token, options);
+      if (signatures === undefined) {
+        return;
+      }
+
+      // Interactive approval of each command
+      let approvals: CommandApprovalService | undefined;
+      if (options.approve) {
+        approvals = this.getApprovalService({
+          timeoutMs: approvalTimeout * 1000,
+          includeEcho: options.approveEcho
+        });
+        log.info('approval.enabled', chalk.gray(`🔐 Approval required for ${options.approveEcho ? 'all' : 'system'} commands (${approvals.listPatterns().length} always-allow pattern(s))`));
+      }
+
       // Initialize remote handler
-      this.remoteHandler = new RemoteCommandHandler(dashboardUrl, token);
+      const maxOutputBytes = parseInt(options.maxOutput || '', 10);
+      this.remoteHandler = new RemoteCommandHandler(dashboardUrl, token, {
+        policy,
+        maxOutputBytes: maxOutputBytes > 0 ? maxOutputBytes : undefined,
+        maxFileBytes: parseInt(options.maxFileSize || '', 10) || undefined,
+        transport,
+        ledger: new ExecutionLedger(join(this.configService.getConfigDir(), 'remote-ledger.json')),
+        concurrency: parseInt(options.concurrency || '', 10) || undefined,
+        concurrencyLimits: options.limit,
+        outbox: this.getOutbox(),
+        maxRetries,
+        signatures: signatures || undefined,
+        approvals,
+        audit: this.getAuditLog(),
+        sandbox,
+        workspaces: this.workspaces,
+        schedules: this.schedules,
+        aliases: this.aliases,
+        metricsPort,
+        metricsHost: options.metricsHost,
+        log,
+        tui: options.tui,
+        capabilityRefreshMs: (parseFloat(options.capabilityRefresh || '') || 0) * 60 * 1000 || undefined,
+        terminalIdleTimeoutMs: (parseFloat(options.terminalIdleTimeout || '') || 0) * 60 * 1000 || undefined
+      });
 
       // Start listening
-      await this.remoteHandler.start();
+      const handler = this.remoteHandler;
+      await handler.start();
 
-      console.log(chalk.green('✅ Remote command listener started successfully'));
-      console.log(chalk.gray(`📡 Listening for commands from: ${dashboardUrl}`));
-      console.log(chalk.gray('💡 You can now send commands from the dashboard'));
-      console.log(chalk.gray('🛑 Press Ctrl+C to stop the listener'));
+      // Let other shells find this listener for status/stop
+      await this.daemon.startControlServer({
+        status: () => ({ ...handler.getSessionInfo(), pid: process.pid, detached: !!options.daemonChild }),
+        stop: () => this.stopRemoteListener()
+      });
+
+      if (log.isVerbose()) {
+        console.log(chalk.green('✅ Remote command listener started successfully'));
+        console.log(chalk.gray(`📡 Listening for commands from: ${dashboardUrl}`));
+        console.log(chalk.gray('💡 You can now send commands from the dashboard'));
+        console.log(chalk.gray(options.daemonChild ? '🛑 Run "e remote stop" to stop the listener' : '🛑 Press Ctrl+C to stop the listener'));
+      }
 
       // Handle graceful shutdown
       process.on('SIGINT', async () => {
-        console.log(chalk.yellow('\n🛑 Shutting down remote listener...'));
+        log.info('listener.shutdown', chalk.yellow('\n🛑 Shutting down remote listener...'), { signal: 'SIGINT' });
         await this.stopRemoteListener();
         process.exit(0);
       });
 
       process.on('SIGTERM', async () => {
-        console.log(chalk.yellow('\n🛑 Shutting down remote listener...'));
+        log.info('listener.shutdown', chalk.yellow('\n🛑 Shutting down remote listener...'), { signal: 'SIGTERM' });
         await this.stopRemoteListener();
         process.exit(0);
       });
 
       // Keep the process alive
       await this.keepAlive();
+      this.daemon.stopControlServer();
 
-    } catch (error: any) {
-      console.error(chalk.red('❌ Failed to start remote listener:'), error.message);
+      // The listener stopped on its own (e.g. it gave up reconnecting)
+      if (handler.getExitCode() !== 0) {
+        log.error('listener.exit', chalk.red('❌ Remote listener stopped after repeated connection failures'), { exitCode: handler.getExitCode() });
+      }
+      process.exit(handler.getExitCode());
+
+    } catch (error: unknown) {
+      this.listenerLog.error('listener.error', `${chalk.red('❌ Failed to start remote listener:')} ${error instanceof Error ? error.message : String(error)}`);
       process.exit(1);
     }
   }
 
+  private async startDetached(args: string[]): Promise<void> {
+    const runningPid = this.daemon.getRunningPid();
+    if (runningPid) {
+      console.log(chalk.yellow(`⚠️  Remote listener is already running (pid ${runningPid})`));
+      return;
+    }
+
+    if (!(await this.getAuthToken())) {
+      return;
+    }
+
+    console.log(chalk.cyan('🚀 Starting remote command listener in the background...'));
+    const pid = this.daemon.spawnDetached(args);
+
+    // Wait for the listener to register and open its control socket
+    const deadline = Date.now() + 15000;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      try {
+        const response = await this.daemon.request('status', 1000);
+        if (response.success) {
+          console.log(chalk.green(`✅ Remote listener running in the background (pid ${pid})`));
+          console.log(chalk.gray(`🔑 Session ID: ${(response.data as ListenerStatus).sessionId.slice(0, 8)}...`));
+          console.log(chalk.gray(`📄 Log file: ${this.daemon.getLogPath()}`));
+          return;
+        }
+      } catch {
+        // Not listening yet
+      }
+
+      if (this.daemon.isAlive(pid)) {
+        continue;
+      }
+      console.log(chalk.red('❌ Remote listener exited during startup'));
+      console.log(chalk.yellow('💡 Check "e remote logs" for details'));
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(chalk.yellow(`⚠️  Listener started (pid ${pid}) but is not responding yet`));
+    console.log(chalk.gray('Use "e remote status" or "e remote logs" to check on it'));
+  }
+
+  private async restartRemoteListener(): Promise<void> {
+    const state = this.daemon.readState();
+    if (!state) {
+      console.log(chalk.yellow('⚠️  No background listener has been started yet'));
+      console.log(chalk.gray('Use "e remote start --detach" to start one'));
+      return;
+    }
+
+    if (this.daemon.getRunningPid()) {
+      await this.stopRemoteListener();
+    }
+    await this.startDetached(state.args);
+  }
+
+  private async showLogs(lines: number, follow?: boolean): Promise<void> {
+    const logPath = this.daemon.getLogPath();
+    if (!fs.existsSync(logPath)) {
+      console.log(chalk.yellow(`⚠️  No listener log found at ${logPath}`));
+      return;
+    }
+
+    const content = fs.readFileSync(logPath, 'utf8');
+    const tail = content.split('\n').slice(-(lines + 1)).join('\n');
+    process.stdout.write(tail);
+
+    if (!follow) return;
+
+    let position = Buffer.byteLength(content);
+    fs.watchFile(logPath, { interval: 500 }, (current) => {
+      if (current.size < position) {
+        position = 0;
+      }
+      if (current.size === position) return;
+
+      const stream = fs.createReadStream(logPath, { start: position, end: current.size - 1 });
+      stream.pipe(process.stdout, { end: false });
+      position = current.size;
+    });
+  }
+
   private async stopRemoteListener(): Promise<void> {
     try {
       if (!this.remoteHandler) {
-        console.log(chalk.yellow('⚠️  Remote listener is not running'));
+        await this.stopOtherListener();
         return;
       }
 
-      console.log(chalk.cyan('🛑 Stopping remote command listener...'));
+      this.listenerLog.info('listener.stopping', chalk.cyan('🛑 Stopping remote command listener...'));
       await this.remoteHandler.stop();
       this.remoteHandler = null;
-      console.log(chalk.green('✅ Remote command listener stopped'));
+      this.listenerLog.info('listener.stopped', chalk.green('✅ Remote command listener stopped'));
+
+    } catch (error: unknown) {
+      this.listenerLog.error('listener.error', `${chalk.red('❌ Error stopping remote listener:')} ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Stop a listener running in another process via its control socket
+   */
+  private async stopOtherListener(): Promise<void> {
+    const pid = this.daemon.getRunningPid();
+    if (!pid) {
+      console.log(chalk.yellow('⚠️  Remote listener is not running'));
+      return;
+    }
 
-    } catch (error: any) {
-      console.error(chalk.red('❌ Error stopping remote listener:'), error.message);
+    console.log(chalk.cyan(`🛑 Stopping remote command listener (pid ${pid})...`));
+    try {
+      await this.daemon.request('stop');
+    } catch {
+      // The control socket is unresponsive - fall back to a signal
+      process.kill(pid, 'SIGTERM');
+    }
+
+    if (await this.daemon.waitForExit(pid, 15000)) {
+      console.log(chalk.green('✅ Remote command listener stopped'));
+    } else {
+      console.log(chalk.red(`❌ Listener (pid ${pid}) did not stop within 15s`));
+      process.exitCode = 1;
     }
   }
 
@@ -128,23 +665,139 @@ export class RemoteCommand {
       console.log(chalk.cyan('📊 Remote Command Listener Status'));
       console.log('─'.repeat(40));
 
-      if (!this.remoteHandler) {
+      let sessionInfo: ListenerStatus | undefined;
+      if (this.remoteHandler) {
+        sessionInfo = { ...this.remoteHandler.getSessionInfo(), pid: process.pid };
+      } else if (this.daemon.getRunningPid()) {
+        const response = await this.daemon.request('status');
+        if (!response.success) {
+          throw new Error(response.error || 'Listener did not return its status');
+        }
+        sessionInfo = response.data as ListenerStatus;
+      }
+
+      if (!sessionInfo) {
         console.log(chalk.red('Status: ') + chalk.gray('Not running'));
         console.log(chalk.gray('Use "e remote start" to begin listening for commands'));
         return;
       }
 
-      const sessionInfo = this.remoteHandler.getSessionInfo();
-
-      console.log(chalk.green('Status: ') + chalk.white('Running'));
+      console.log(chalk.green('Status: ') + chalk.white(`Running (pid ${sessionInfo.pid}${sessionInfo.detached ? ', background' : ''})`));
       console.log(chalk.blue('Session ID: ') + chalk.gray(sessionInfo.sessionId.slice(0, 8) + '...'));
       console.log(chalk.blue('Version: ') + chalk.gray(sessionInfo.version));
       console.log(chalk.blue('Platform: ') + chalk.gray(sessionInfo.platform));
+      console.log(chalk.blue('Uptime: ') + chalk.gray(sessionInfo.uptime));
+      console.log(chalk.blue('Commands Executed: ') + chalk.gray(sessionInfo.commandCount));
       console.log(chalk.blue('Capabilities: ') + chalk.gray(sessionInfo.capabilities.join(', ')));
+      console.log(chalk.blue('Transport: ') + chalk.gray(sessionInfo.transportLabel));
+      console.log(chalk.blue('Signing Key: ') + (sessionInfo.signingKey ? chalk.gray(sessionInfo.signingKey) : chalk.yellow('Not verified (--allow-unsigned)')));
       console.log(chalk.blue('Active: ') + (sessionInfo.isActive ? chalk.green('Yes') : chalk.red('No')));
+      console.log(chalk.blue('Connection: ') + chalk.gray(sessionInfo.connectionLabel));
+      if (sessionInfo.lastError) {
+        console.log(chalk.blue('Last Error: ') + chalk.gray(sessionInfo.lastError));
+      }
+      if (sessionInfo.sandbox) {
+        const limits = [
+          sessionInfo.sandbox.cpuSeconds ? `cpu ${sessionInfo.sandbox.cpuSeconds}s` : null,
+          sessionInfo.sandbox.memoryMb ? `memory ${sessionInfo.sandbox.memoryMb}MB` : null
+        ].filter(Boolean).join(', ');
+        console.log(chalk.blue('Sandbox: ') + chalk.gray(`${sessionInfo.sandbox.roots.join(', ')}${limits ? ` (${limits})` : ''}`));
+      }
+      if (sessionInfo.metricsUrl) {
+        console.log(chalk.blue('Metrics: ') + chalk.gray(`${sessionInfo.metricsUrl}/metrics`));
+      }
+      if (sessionInfo.auditLog) {
+        console.log(chalk.blue('Audit Log: ') + chalk.gray(sessionInfo.auditLog));
+      }
+      console.log(chalk.blue('Workers: ') + chalk.gray(`${sessionInfo.concurrency} (${sessionInfo.queueDepth} queued)`));
+      const jobs = this.schedules.list();
+      if (jobs.length > 0) {
+        const paused = jobs.filter(job => job.paused).length;
+        console.log(chalk.blue('Scheduled Jobs: ') + chalk.gray(`${jobs.length - paused} active${paused ? `, ${paused} paused` : ''}`));
+      }
+
+      console.log();
+      if (sessionInfo.inFlight.length === 0) {
+        console.log(chalk.gray('No commands in flight'));
+      } else {
+        console.log(chalk.cyan(`Commands in flight (${sessionInfo.inFlight.length}):`));
+        for (const command of sessionInfo.inFlight) {
+          const state = command.state === 'running' ? chalk.green(command.state) : chalk.yellow(command.state);
+          console.log(`  ${state} ${command.command} ${chalk.gray(`(${command.elapsed}, id ${command.id})`)}`);
+        }
+      }
+
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error getting status:'), error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async showCapabilities(json?: boolean): Promise<void> {
+    try {
+      // Prefer what the running listener advertised; otherwise probe this machine now
+      let document: CapabilityDocument | null = null;
+      if (this.daemon.getRunningPid()) {
+        const response = await this.daemon.request('status');
+        document = response.success ? (response.data as ListenerStatus).capabilityDocument || null : null;
+      }
+      if (!document) {
+        document = await new CapabilityDetector({
+          features: ['echo-cli', 'system-commands', 'files', 'terminal', 'workspaces', 'schedules'],
+          workspaces: this.workspaces
+        }).detect();
+      }
+
+      if (json) {
+        console.log(JSON.stringify(document, null, 2));
+        return;
+      }
+
+      console.log(chalk.cyan('⚡ Remote Capabilities'));
+      console.log('─'.repeat(40));
+      console.log(chalk.blue('Features: ') + chalk.gray(document.features.join(', ')));
+      console.log(chalk.blue('Platform: ') + chalk.gray(`${document.platform.os}-${document.platform.arch} ${document.platform.release} (${document.platform.hostname})`));
+      console.log(chalk.blue('Detected: ') + chalk.gray(new Date(document.detectedAt).toLocaleString()));
+
+      console.log();
+      console.log(chalk.cyan('Tools:'));
+      for (const name of Object.keys(document.tools) as ToolName[]) {
+        const tool = document.tools[name];
+        const status = tool.available
+          ? chalk.green(`✓ ${tool.version || 'unknown version'}`) + chalk.gray(` ${tool.path}`)
+          : chalk.red('✗ not found');
+        console.log(`  ${name.padEnd(8)}${status}`);
+      }
+
+      console.log();
+      console.log(chalk.cyan('Shells:'));
+      if (document.shells.default) {
+        console.log(chalk.gray(`  default ${document.shells.default}`));
+      }
+      for (const shell of document.shells.available) {
+        console.log(`  ${shell.name.padEnd(8)}${chalk.gray(shell.path)}`);
+      }
+
+      console.log();
+      console.log(chalk.cyan('Workspaces:'));
+      if (document.workspaces.length === 0) {
+        console.log(chalk.gray('  None registered'));
+      }
+      for (const workspace of document.workspaces) {
+        console.log(`  ${chalk.blue(workspace.name)} ${chalk.gray(workspace.path)}`);
+      }
+
+      console.log();
+      console.log(chalk.cyan('Disk:'));
+      if (document.disk.length === 0) {
+        console.log(chalk.gray('  Not available on this Node.js version'));
+      }
+      for (const disk of document.disk) {
+        console.log(`  ${formatBytes(disk.freeBytes)} free of ${formatBytes(disk.totalBytes)} ${chalk.gray(disk.path)}`);
+      }
 
-    } catch (error: any) {
-      console.error(chalk.red('❌ Error getting status:'), error.message);
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error detecting capabilities:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
     }
   }
 
@@ -180,11 +833,575 @@ export class RemoteCommand {
         console.log(chalk.gray(`Error: ${errorData.error || 'Unknown error'}`));
       }
 
-    } catch (error: any) {
-      console.error(chalk.red('❌ Connection test failed:'), error.message);
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Connection test failed:'), error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private loadPolicy(policyPath?: string): CommandPolicyService {
+    const policy = new CommandPolicyService(
+      policyPath || join(this.configService.getConfigDir(), 'remote-policy.json')
+    );
+    policy.load();
+    return policy;
+  }
+
+  private testPolicy(cmd: string, options: { policy?: string; cwd?: string }): void {
+    try {
+      const policy = this.loadPolicy(options.policy);
+      // "file.get <path>" and friends are checked the way the listener checks file transfers
+      const [operation, target = '.'] = cmd.trim().split(/\s+/);
+      const subject = FILE_OPERATIONS.includes(operation as FileOperation)
+        ? buildFileSubject(operation, resolve(options.cwd ? expandHomeDir(options.cwd) : process.cwd(), expandHomeDir(target)))
+        : buildPolicySubject(cmd, [], options.cwd);
+      // Every command of a chain or alias is checked on its own, like the listener does
+      const subjects = subject.type === 'echo-cli'
+        ? buildEchoChainSubjects(cmd, options.cwd, this.aliases.getCommands())
+        : subject.type === 'system' ? buildSystemChainSubjects(cmd, [], options.cwd) : [subject];
+      const decision = policy.evaluateAll(subjects);
+
+      console.log(chalk.cyan('🛡️  Policy Dry Run'));
+      console.log('─'.repeat(40));
+      console.log(chalk.blue('Policy: ') + chalk.gray(policy.isEnabled() ? policy.getPolicyPath() : 'Not configured'));
+      console.log(chalk.blue('Type: ') + chalk.gray(subject.type));
+      console.log(chalk.blue('Executable: ') + chalk.gray(subject.executable));
+      console.log(chalk.blue('Arguments: ') + chalk.gray(subject.args.join(' ') || '(none)'));
+      console.log(chalk.blue('Working Directory: ') + chalk.gray(subject.workingDirectory));
+      if (subjects.length > 1 || subjects[0].executable !== subject.executable) {
+        console.log(chalk.blue('Checked Commands: ') + chalk.gray(subjects.map(step => [step.executable, ...step.args].join(' ')).join(', ')));
+      }
+      console.log();
+
+      if (decision.allowed) {
+        console.log(chalk.green(`✅ Allowed - ${decision.reason}`));
+      } else {
+        console.log(chalk.red(`❌ Denied - ${decision.reason}`));
+        process.exitCode = 1;
+      }
+
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error testing policy:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
     }
   }
 
+  private showPolicy(policyPath?: string): void {
+    try {
+      const policy = this.loadPolicy(policyPath);
+      const activePolicy = policy.getPolicy();
+
+      if (!activePolicy) {
+        console.log(chalk.yellow(`⚠️  No command policy found at ${policy.getPolicyPath()}`));
+        console.log(chalk.gray('All remote commands are allowed until a policy file is created.'));
+        return;
+      }
+
+      console.log(chalk.cyan(`🛡️  Command Policy (${policy.getPolicyPath()})`));
+      console.log('─'.repeat(40));
+      console.log(chalk.blue('Default: ') + chalk.gray(activePolicy.defaultAction));
+      activePolicy.rules.forEach((rule, index) => {
+        const action = rule.action === 'allow' ? chalk.green('allow') : chalk.red('deny ');
+        const criteria = [
+          rule.type ? `type=${[rule.type].flat().join(',')}` : null,
+          rule.executable ? `executable=${[rule.executable].flat().join(',')}` : null,
+          rule.args !== undefined ? `args=/${rule.args}/` : null,
+          rule.workingDirectory ? `cwd=${[rule.workingDirectory].flat().join(',')}` : null
+        ].filter(Boolean).join(' ');
+        console.log(`  ${index + 1}. ${action} ${criteria || '(any command)'}${rule.description ? chalk.gray(` - ${rule.description}`) : ''}`);
+      });
+
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error loading policy:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  /**
+   * Build the command sandbox from the start options. Returns undefined if they are invalid.
+   */
+  private createSandbox(options: {
+    workspaceRoot?: string[];
+    allowEnv?: string[];
+    cpuLimit?: string;
+    memoryLimit?: string;
+  }): CommandSandbox | undefined {
+    const cpuSeconds = options.cpuLimit ? parseInt(options.cpuLimit, 10) : undefined;
+    const memoryMb = options.memoryLimit ? parseInt(options.memoryLimit, 10) : undefined;
+    if (cpuSeconds !== undefined && !(cpuSeconds > 0)) {
+      console.log(chalk.red(`❌ Invalid --cpu-limit "${options.cpuLimit}". Use a number of seconds greater than 0.`));
+      return undefined;
+    }
+    if (memoryMb !== undefined && !(memoryMb > 0)) {
+      console.log(chalk.red(`❌ Invalid --memory-limit "${options.memoryLimit}". Use a number of megabytes greater than 0.`));
+      return undefined;
+    }
+
+    try {
+      // Named workspaces are always roots; fall back to the current directory if there are none
+      const roots = [...this.workspaces.list().map(workspace => workspace.path), ...(options.workspaceRoot || [])];
+      const sandbox = new CommandSandbox({
+        roots: roots.length > 0 ? roots : [process.cwd()],
+        allowEnv: options.allowEnv,
+        cpuSeconds,
+        memoryMb
+      });
+
+      console.log(chalk.gray(`🧱 Sandbox enabled - commands may run in: ${sandbox.getRoots().join(', ')}`));
+      if (process.platform === 'win32' && (cpuSeconds || memoryMb)) {
+        console.log(chalk.yellow('⚠️  CPU and memory limits are not enforced on Windows'));
+      }
+      return sandbox;
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(chalk.red(`❌ ${errorMessage}`));
+      return undefined;
+    }
+  }
+
+  private addWorkspace(name: string, dirPath: string, options: { env: Record<string, string>; policy?: string }): void {
+    try {
+      const replaced = this.workspaces.get(name);
+      const workspace = this.workspaces.add(name, dirPath, options);
+
+      console.log(chalk.green(`✅ Workspace "${name}" ${replaced ? 'updated' : 'added'}: ${workspace.path}`));
+      if (workspace.env) {
+        console.log(chalk.gray(`Environment: ${Object.keys(workspace.env).join(', ')}`));
+      }
+      if (workspace.policy) {
+        console.log(chalk.gray(`Policy: ${workspace.policy}`));
+      }
+      if (this.daemon.getRunningPid()) {
+        console.log(chalk.gray('The running listener picks up the change on its next heartbeat.'));
+      }
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error adding workspace:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private listWorkspaces(): void {
+    const workspaces = this.workspaces.list();
+
+    if (workspaces.length === 0) {
+      console.log(chalk.yellow('⚠️  No workspaces registered'));
+      console.log(chalk.gray('Add one with: e remote workspace add <name> <path>'));
+      return;
+    }
+
+    console.log(chalk.cyan(`📁 Workspaces (${workspaces.length})`));
+    console.log('─'.repeat(40));
+    for (const workspace of workspaces) {
+      const missing = fs.existsSync(workspace.path) ? '' : chalk.red(' (missing)');
+      console.log(`${chalk.blue(workspace.name)} ${chalk.gray(workspace.path)}${missing}`);
+      const env = workspace.env;
+      if (env) {
+        console.log(chalk.gray(`  env: ${Object.keys(env).map(key => `${key}=${env[key]}`).join(' ')}`));
+      }
+      if (workspace.policy) {
+        console.log(chalk.gray(`  policy: ${workspace.policy}`));
+      }
+    }
+  }
+
+  private removeWorkspace(name: string): void {
+    if (!this.workspaces.remove(name)) {
+      console.log(chalk.red(`❌ No workspace named "${name}"`));
+      process.exitCode = 1;
+      return;
+    }
+    console.log(chalk.green(`✅ Workspace "${name}" removed`));
+  }
+
+  private addSchedule(cron: string, cmd: string, options: { name?: string; cwd?: string; workspace?: string; timeout?: string }): void {
+    try {
+      const timeout = options.timeout === undefined ? undefined : parseFloat(options.timeout);
+      if (timeout !== undefined && !(timeout > 0)) {
+        throw new Error(`Invalid --timeout "${options.timeout}". Use a number of seconds.`);
+      }
+
+      const job = this.schedules.add(cron, cmd, {
+        name: options.name,
+        workingDirectory: options.cwd,
+        workspace: options.workspace,
+        timeout: timeout === undefined ? undefined : Math.round(timeout * 1000)
+      });
+      const next = this.schedules.nextRun(job);
+
+      console.log(chalk.green(`✅ Scheduled job ${job.id} added: ${job.command}`));
+      console.log(chalk.gray(`Schedule: ${job.cron}${next ? ` (next run ${next.toLocaleString()})` : ' (never runs)'}`));
+      if (!this.daemon.getRunningPid()) {
+        console.log(chalk.gray('Jobs run while the listener is running: e remote start'));
+      }
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error adding scheduled job:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private listSchedules(): void {
+    const jobs = this.schedules.list();
+
+    if (jobs.length === 0) {
+      console.log(chalk.yellow('⚠️  No scheduled jobs'));
+      console.log(chalk.gray('Add one with: e remote schedule add "<cron>" "<command>"'));
+      return;
+    }
+
+    console.log(chalk.cyan(`⏰ Scheduled Jobs (${jobs.length})`));
+    console.log('─'.repeat(40));
+    for (const job of jobs) {
+      let next: string;
+      try {
+        const nextRun = this.schedules.nextRun(job);
+        next = job.paused ? chalk.yellow('paused') : nextRun ? `next ${nextRun.toLocaleString()}` : chalk.red('never runs');
+      } catch (error: unknown) {
+        next = chalk.red(error instanceof Error ? error.message : String(error));
+      }
+
+      console.log(`${chalk.blue(job.id)} ${chalk.white(job.cron)} ${job.command}${job.name ? chalk.gray(` "${job.name}"`) : ''}`);
+      const location = [
+        job.workspace ? `workspace ${job.workspace}` : null,
+        job.workingDirectory ? `cwd ${job.workingDirectory}` : null,
+        job.timeout ? `timeout ${job.timeout / 1000}s` : null
+      ].filter(Boolean).join(', ');
+      console.log(chalk.gray(`  ${next}${location ? ` · ${location}` : ''}`));
+    }
+  }
+
+  private removeSchedule(id: string): void {
+    try {
+      const job = this.schedules.remove(id);
+      if (!job) {
+        console.log(chalk.red(`❌ No scheduled job with id "${id}"`));
+        process.exitCode = 1;
+        return;
+      }
+      console.log(chalk.green(`✅ Scheduled job ${job.id} removed`));
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error removing scheduled job:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private pauseSchedule(id: string, paused: boolean): void {
+    try {
+      const job = this.schedules.setPaused(id, paused);
+      if (!job) {
+        console.log(chalk.red(`❌ No scheduled job with id "${id}"`));
+        process.exitCode = 1;
+        return;
+      }
+      console.log(chalk.green(`✅ Scheduled job ${job.id} ${paused ? 'paused' : 'resumed'}`));
+    } catch (error: unknown) {
+      console.error(chalk.red(`❌ Error ${paused ? 'pausing' : 'resuming'} scheduled job:`), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private getAuditLog(): AuditLog {
+    return new AuditLog(join(this.configService.getConfigDir(), 'audit'));
+  }
+
+  private showHistory(options: {
+    since?: Date;
+    failed?: boolean;
+    session?: string;
+    limit?: string;
+    format: string;
+    output?: string;
+  }): void {
+    try {
+      if (!['table', 'json', 'csv'].includes(options.format)) {
+        throw new Error(`Unknown format "${options.format}". Use table, json or csv.`);
+      }
+      if (options.output && options.format === 'table') {
+        throw new Error('--output needs --format json or --format csv');
+      }
+
+      const audit = this.getAuditLog();
+      let records = audit.readCommands({
+        since: options.since,
+        sessionId: options.session,
+        failedOnly: options.failed
+      });
+
+      const limit = parseInt(options.limit || (options.format === 'table' ? '50' : ''), 10);
+      const total = records.length;
+      if (limit > 0) {
+        records = records.slice(-limit);
+      }
+
+      if (options.format !== 'table') {
+        const content = options.format === 'json'
+          ? JSON.stringify(records, null, 2)
+          : toCsv(records);
+
+        if (options.output) {
+          fs.writeFileSync(options.output, content + '\n');
+          console.log(chalk.green(`✅ Exported ${records.length} command(s) to ${options.output}`));
+        } else {
+          console.log(content);
+        }
+        return;
+      }
+
+      if (records.length === 0) {
+        console.log(chalk.yellow('⚠️  No matching commands in the audit log'));
+        console.log(chalk.gray(`Audit log: ${audit.getPath()}`));
+        return;
+      }
+
+      console.log(chalk.cyan(`📜 Remote Command History (${records.length}${total > records.length ? ` of ${total}` : ''})`));
+      console.log('─'.repeat(60));
+      for (const record of records) {
+        const status = record.status === 'success' ? chalk.green(record.status) : chalk.red(record.status);
+        const exitCode = record.exitCode !== null ? chalk.gray(` (exit ${record.exitCode})`) : '';
+        const command = [record.command, ...record.args].join(' ');
+        console.log(`${chalk.gray(new Date(record.endedAt).toLocaleString())} ${status}${exitCode} ${command}`);
+        const location = record.workspace ? `${record.workspace}:${record.cwd}` : record.cwd;
+        console.log(chalk.gray(`  id ${record.requestId} · session ${record.sessionId.slice(0, 8)} · ${location} · ${record.durationMs}ms`));
+        const reason = record.error || (record.policy && record.policy.outcome === 'deny' ? record.policy.reason : null);
+        if (reason && record.status !== 'success') {
+          console.log(chalk.gray(`  ${reason.split('\n')[0]}`));
+        }
+      }
+
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error reading history:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private getApprovalService(options: { timeoutMs?: number; includeEcho?: boolean } = {}): CommandApprovalService {
+    return new CommandApprovalService(join(this.configService.getConfigDir(), 'remote-approvals.json'), options);
+  }
+
+  private listApprovals(): void {
+    const approvals = this.getApprovalService();
+    const patterns = approvals.listPatterns();
+
+    if (patterns.length === 0) {
+      console.log(chalk.yellow('⚠️  No always-allow patterns saved'));
+      console.log(chalk.gray('Answer "always" to an approval prompt in "e remote start --approve" to add one.'));
+      return;
+    }
+
+    console.log(chalk.cyan(`🔐 Always-Allow Patterns (${approvals.getPath()})`));
+    console.log('─'.repeat(40));
+    patterns.forEach((pattern, index) => {
+      const type = pattern.type === 'echo-cli' ? chalk.magenta(':') : '';
+      console.log(`  ${index + 1}. ${type}${pattern.pattern} ${chalk.gray(`in ${pattern.workingDirectory}`)}`);
+    });
+  }
+
+  private removeApproval(number: string): void {
+    const removed = this.getApprovalService().removePattern(parseInt(number, 10));
+    if (!removed) {
+      console.log(chalk.red(`❌ No always-allow pattern number ${number}. Run "e remote approvals list" to see them.`));
+      process.exitCode = 1;
+      return;
+    }
+    console.log(chalk.green(`✅ Removed always-allow pattern "${removed.pattern}"`));
+  }
+
+  private getSignatureService(): CommandSignatureService {
+    const configDir = this.configService.getConfigDir();
+    return new CommandSignatureService(
+      join(configDir, 'remote-trust.json'),
+      join(configDir, 'remote-nonces.json')
+    );
+  }
+
+  /**
+   * Resolve the signing key for a dashboard: an explicit --trust-key, a previously pinned key,
+   * or the dashboard's key trusted on first use. Returns null when verification is disabled
+   * and undefined when the listener must not start.
+   */
+  private async loadSignatures(
+    dashboardUrl: string,
+    token: string,
+    options: { trustKey?: string; allowUnsigned?: boolean }
+  ): Promise<CommandSignatureService | null | undefined> {
+    if (options.allowUnsigned) {
+      this.listenerLog.warn('signature.disabled', chalk.yellow('⚠️  Signature verification disabled - any command from the dashboard will be accepted'));
+      return null;
+    }
+
+    const signatures = this.getSignatureService();
+    const pinned = signatures.getPinnedKey(dashboardUrl);
+
+    try {
+      if (options.trustKey) {
+        const key = signatures.pinKey(dashboardUrl, fs.readFileSync(options.trustKey, 'utf8'), 'explicit');
+        if (pinned && pinned.fingerprint !== key.fingerprint) {
+          this.listenerLog.warn('signature.replaced', chalk.yellow(`⚠️  Replaced pinned signing key ${pinned.fingerprint}`), { fingerprint: pinned.fingerprint });
+        }
+      } else if (!pinned) {
+        const publicKey = await signatures.fetchSigningKey(dashboardUrl, token);
+        const key = signatures.pinKey(dashboardUrl, publicKey, 'tofu');
+        this.listenerLog.warn('signature.pinned', chalk.yellow(`🔐 Pinned dashboard signing key on first use: ${key.fingerprint}`), { fingerprint: key.fingerprint });
+        this.listenerLog.warn('signature.pinned', chalk.gray('   Compare this fingerprint with the one shown in the dashboard settings.'));
+      }
+
+      const active = signatures.activate(dashboardUrl);
+      this.listenerLog.info('signature.active', chalk.gray(`🔐 Verifying commands with signing key ${active.fingerprint}`), { fingerprint: active.fingerprint });
+      return signatures;
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.listenerLog.error('signature.error', chalk.red(`❌ Could not load the dashboard signing key: ${errorMessage}`));
+      this.listenerLog.error('signature.error', chalk.gray('Pin a key with --trust-key <file>, or use --allow-unsigned to skip verification'));
+      return undefined;
+    }
+  }
+
+  private showTrust(): void {
+    const keys = this.getSignatureService().getPinnedKeys();
+    const urls = Object.keys(keys);
+
+    if (urls.length === 0) {
+      console.log(chalk.yellow('⚠️  No signing keys pinned yet'));
+      console.log(chalk.gray('A key is pinned the first time "e remote start" connects to a dashboard.'));
+      return;
+    }
+
+    console.log(chalk.cyan('🔐 Pinned Signing Keys'));
+    console.log('─'.repeat(40));
+    urls.forEach(url => {
+      const key = keys[url];
+      console.log(chalk.blue(url));
+      console.log(chalk.gray(`  Fingerprint: ${key.fingerprint}`));
+      console.log(chalk.gray(`  Pinned: ${new Date(key.pinnedAt).toLocaleString()} (${key.source === 'tofu' ? 'trust on first use' : 'explicit'})`));
+    });
+  }
+
+  private pinTrustKey(dashboardUrl: string, file: string): void {
+    try {
+      const key = this.getSignatureService().pinKey(dashboardUrl, fs.readFileSync(file, 'utf8'), 'explicit');
+      console.log(chalk.green(`✅ Pinned signing key for ${dashboardUrl}`));
+      console.log(chalk.gray(`Fingerprint: ${key.fingerprint}`));
+      console.log(chalk.gray('Restart the listener for the new key to take effect.'));
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error pinning key:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private async forgetTrustKey(dashboardUrl: string, skipConfirm?: boolean): Promise<void> {
+    const signatures = this.getSignatureService();
+    const pinned = signatures.getPinnedKey(dashboardUrl);
+    if (!pinned) {
+      console.log(chalk.yellow(`⚠️  No signing key pinned for ${dashboardUrl}`));
+      return;
+    }
+
+    if (!skipConfirm) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Forget signing key ${pinned.fingerprint}? The next key the dashboard offers will be trusted.`,
+          default: false
+        }
+      ]);
+
+      if (!confirm) {
+        console.log(chalk.gray('Signing key kept.'));
+        return;
+      }
+    }
+
+    signatures.forgetKey(dashboardUrl);
+    console.log(chalk.green(`✅ Forgot signing key for ${dashboardUrl}`));
+  }
+
+  private getOutbox(): ResultOutbox {
+    return new ResultOutbox(join(this.configService.getConfigDir(), 'outbox'));
+  }
+
+  private listOutbox(): void {
+    const entries = this.getOutbox().list();
+
+    console.log(chalk.cyan(`📥 Result Outbox (${entries.length} pending)`));
+    console.log('─'.repeat(40));
+
+    if (entries.length === 0) {
+      console.log(chalk.gray('All command results have been delivered.'));
+      return;
+    }
+
+    for (const entry of entries) {
+      console.log(chalk.blue('Command ID: ') + chalk.white(entry.commandId));
+      console.log(chalk.gray(`  Dashboard: ${entry.apiUrl}`));
+      console.log(chalk.gray(`  Queued: ${new Date(entry.createdAt).toLocaleString()}`));
+      console.log(chalk.gray(`  Attempts: ${entry.attempts}, next retry: ${new Date(entry.nextAttemptAt).toLocaleString()}`));
+      if (entry.lastError) {
+        console.log(chalk.gray(`  Last error: ${entry.lastError}`));
+      }
+    }
+  }
+
+  private async flushOutbox(): Promise<void> {
+    try {
+      const outbox = this.getOutbox();
+      if (outbox.list().length === 0) {
+        console.log(chalk.gray('Outbox is empty - nothing to deliver.'));
+        return;
+      }
+
+      const token = await this.getAuthToken();
+      if (!token) {
+        return;
+      }
+
+      const summary = await outbox.flush(token, true);
+      const ledger = new ExecutionLedger(join(this.configService.getConfigDir(), 'remote-ledger.json'));
+      summary.delivered.forEach(commandId => ledger.markReported(commandId));
+
+      if (summary.delivered.length > 0) {
+        console.log(chalk.green(`✅ Delivered ${summary.delivered.length} result(s)`));
+      }
+      if (summary.failed.length > 0) {
+        console.log(chalk.red(`❌ ${summary.failed.length} result(s) could not be delivered and remain in the outbox`));
+        process.exitCode = 1;
+      }
+
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error flushing outbox:'), error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  }
+
+  private async purgeOutbox(commandId: string | undefined, skipConfirm?: boolean): Promise<void> {
+    const outbox = this.getOutbox();
+
+    if (!skipConfirm) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: commandId
+            ? `Discard the pending result for ${commandId}?`
+            : 'Discard all pending results? They will never reach the dashboard.',
+          default: false
+        }
+      ]);
+
+      if (!confirm) {
+        console.log(chalk.gray('Outbox not purged.'));
+        return;
+      }
+    }
+
+    const removed = outbox.purge(commandId);
+    if (commandId && removed === 0) {
+      console.log(chalk.yellow(`⚠️  No pending result found for ${commandId}`));
+      return;
+    }
+    console.log(chalk.green(`✅ Removed ${removed} pending result(s) from the outbox`));
+  }
+
   private async getAuthToken(): Promise<string | null> {
     try {
       // Get the configured auth token
@@ -207,8 +1424,8 @@ export class RemoteCommand {
       console.log(chalk.yellow('💡 Please run: e config setup'));
       return null;
 
-    } catch (error: any) {
-      console.error(chalk.red('❌ Error getting auth token:'), error.message);
+    } catch (error: unknown) {
+      console.error(chalk.red('❌ Error getting auth token:'), error instanceof Error ? error.message : String(error));
       return null;
     }
   }
@@ -225,3 +1442,110 @@ export class RemoteCommand {
     });
   }
 }
+
+/**
+ * Arguments given to `e remote start`, minus --detach, so the background listener can be started with them
+ */
+function getStartArgs(): string[] {
+  const argv = process.argv.slice(2);
+  const startIndex = argv.findIndex((arg, index) => arg === 'start' && argv[index - 1] === 'remote');
+  return argv.slice(startIndex + 1).filter(arg => arg !== '--detach');
+}
+
+/**
+ * Parse `--since` as a duration ago (e.g. 30m, 2h, 7d) or a date
+ */
+function parseSince(value: string): Date {
+  const units: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+  const duration = value.match(/^(\d+)([smhdw])$/);
+  if (duration) {
+    return new Date(Date.now() - parseInt(duration[1], 10) * units[duration[2]]);
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidArgumentError(`Invalid --since "${value}", expected a duration like 2h or a date`);
+  }
+  return date;
+}
+
+/**
+ * Convert audit records to CSV with one row per command
+ */
+function toCsv(records: CommandAuditRecord[]): string {
+  const columns: Array<[string, (record: CommandAuditRecord) => unknown]> = [
+    ['endedAt', record => record.endedAt],
+    ['startedAt', record => record.startedAt],
+    ['sessionId', record => record.sessionId],
+    ['requestId', record => record.requestId],
+    ['requester', record => record.requester],
+    ['type', record => record.commandType],
+    ['command', record => record.command],
+    ['args', record => record.args.join(' ')],
+    ['workspace', record => record.workspace],
+    ['cwd', record => record.cwd],
+    ['status', record => record.status],
+    ['exitCode', record => record.exitCode],
+    ['durationMs', record => record.durationMs],
+    ['outputBytes', record => record.outputBytes],
+    ['outputHash', record => record.outputHash],
+    ['signature', record => record.signature && `${record.signature.outcome}: ${record.signature.reason}`],
+    ['policy', record => record.policy && `${record.policy.outcome}: ${record.policy.reason}`],
+    ['approval', record => record.approval && `${record.approval.outcome}: ${record.approval.reason}`],
+    ['error', record => record.error]
+  ];
+
+  const escape = (value: unknown): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    columns.map(([name]) => name).join(','),
+    ...records.map(record => columns.map(([, get]) => escape(get(record))).join(','))
+  ].join('\n');
+}
+
+/**
+ * Collect a repeatable option into an array
+ */
+function collectValue(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Collect repeated `--env KEY=VALUE` options into a map
+ */
+function collectEnv(value: string, previous: Record<string, string>): Record<string, string> {
+  const separator = value.indexOf('=');
+  if (separator <= 0) {
+    throw new InvalidArgumentError(`Invalid --env "${value}", expected KEY=VALUE`);
+  }
+  return { ...previous, [value.slice(0, separator)]: value.slice(separator + 1) };
+}
+
+/**
+ * Collect repeated `--limit command=n` options into a map
+ */
+function collectLimit(value: string, previous: Record<string, number>): Record<string, number> {
+  const separator = value.lastIndexOf('=');
+  const limit = parseInt(value.slice(separator + 1), 10);
+  if (separator <= 0 || !(limit > 0)) {
+    throw new InvalidArgumentError(`Invalid --limit "${value}", expected command=n`);
+  }
+  return { ...previous, [value.slice(0, separator)]: limit };
+}
+
+/**
+ * Format a byte count as e.g. "12.3 GB"
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,55 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ApiService } from '../services/ApiService';
+import { AliasService } from '../services/AliasService';
+import { runEchoChain } from '../echo-command-handler';
+import { formatCommandLine } from '../utils/tokenize';
+
+export class RunCommand {
+  private apiService: ApiService;
+  private aliases: AliasService;
+
+  constructor(apiService: ApiService, aliases: AliasService) {
+    this.apiService = apiService;
+    this.aliases = aliases;
+  }
+
+  getCommand(): Command {
+    return new Command('run')
+      .description('Run Echo commands chained with |, &&, || and ; (quote the whole chain)')
+      .argument('<chain...>', 'Commands to run, e.g. \'task list --json | agent ask "which of these are overdue?"\'')
+      // Options belong to the chained commands, not to run itself
+      .allowUnknownOption()
+      .action(async (words: string[]) => {
+        // A quoted chain arrives as one argument; separate words are quoted back so each stays one argument
+        await this.runChain(words.length === 1 ? words[0] : formatCommandLine(words));
+      });
+  }
+
+  /**
+   * Run a command line; also how `e <alias>` runs
+   */
+  async runChain(line: string): Promise<void> {
+    const spinner = ora('Running commands...').start();
+
+    try {
+      const result = await runEchoChain(line, async (parsed, input) => {
+        spinner.text = `Running ${parsed.dashboardCommand}...`;
+        const response = await this.apiService.executeCommand(parsed.dashboardCommand, parsed.args, input);
+        return { success: response.success, output: response.output || '', error: response.error };
+      }, this.aliases.getCommands());
+      spinner.stop();
+
+      result.outputs.forEach(output => console.log(output));
+      if (!result.success) {
+        console.error(chalk.red(`❌ ${result.error || 'Command failed'}`));
+        process.exitCode = 1;
+      }
+    } catch (error: unknown) {
+      spinner.fail('Failed to run commands');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exitCode = 1;
+    }
+  }
+}
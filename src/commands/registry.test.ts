@@ -0,0 +1,113 @@
+import { ApiService } from '../services/ApiService';
+import { ConfigService } from '../services/ConfigService';
+import { buildCommand, findCommand, resolveCommand } from './registry';
+
+// Neither is reached once sendCommand is stubbed; mocked so the tests don't load conf or firebase
+jest.mock('../services/ConfigService', () => ({ ConfigService: jest.fn() }));
+jest.mock('../services/FirebaseAuthService', () => ({ FirebaseAuthService: jest.fn() }));
+
+describe('resolveCommand', () => {
+  it('maps a subcommand to its dashboard command', () => {
+    expect(resolveCommand(['task', 'add', 'Buy milk'])).toEqual({ dashboardCommand: ':task add', args: ['Buy milk'] });
+  });
+
+  it('accepts command and subcommand aliases in any case', () => {
+    expect(resolveCommand(['Task', 'LS'])).toEqual({ dashboardCommand: ':task list', args: [] });
+    expect(resolveCommand(['task', 'done', '7'])).toEqual({ dashboardCommand: ':task complete', args: ['7'] });
+  });
+
+  it('spells short options out in full before --', () => {
+    expect(resolveCommand(['task', 'add', 'x', '-d', 'details', '--', '-d'])).toEqual({
+      dashboardCommand: ':task add',
+      args: ['x', '--description', 'details', '--', '-d']
+    });
+  });
+
+  it('passes every word to a command with its own action', () => {
+    expect(resolveCommand(['agent', 'what', 'is', 'status'])).toEqual({ dashboardCommand: ':agent', args: ['what', 'is', 'status'] });
+  });
+
+  it('runs the default subcommand when none matches', () => {
+    expect(resolveCommand(['git'])).toEqual({ dashboardCommand: ':git status', args: [] });
+    expect(resolveCommand(['git', 'unknown', 'x'])).toEqual({ dashboardCommand: ':git status', args: [] });
+  });
+
+  it('passes unknown commands through', () => {
+    expect(resolveCommand(['weather', 'Paris'])).toEqual({ dashboardCommand: ':weather', args: ['Paris'] });
+  });
+
+  it('shows help for an empty command', () => {
+    expect(resolveCommand([])).toEqual({ dashboardCommand: ':help', args: [] });
+  });
+});
+
+describe('commands with a typed view', () => {
+  let apiService: ApiService;
+  let printed: string[];
+
+  beforeEach(() => {
+    apiService = new ApiService({} as ConfigService);
+    printed = [];
+    jest.spyOn(console, 'log').mockImplementation((text: string) => {
+      printed.push(text);
+    });
+    jest.spyOn(console, 'error').mockImplementation((text: string) => {
+      printed.push(text);
+    });
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.exitCode = undefined;
+  });
+
+  const run = async (...words: string[]) => {
+    const definition = findCommand(words[0]);
+    if (!definition) throw new Error(`no command ${words[0]}`);
+    await buildCommand(definition, apiService).exitOverride().parseAsync(words.slice(1), { from: 'user' });
+    return printed.join('\n');
+  };
+
+  const respond = (response: { output: string; data?: unknown }) => {
+    return jest.spyOn(apiService, 'sendCommand').mockResolvedValue(response);
+  };
+
+  it('renders the decoded data', async () => {
+    const sendCommand = respond({ output: 'ignored', data: [{ id: 't1', title: 'Buy milk' }] });
+    const text = await run('task', 'list');
+    expect(sendCommand).toHaveBeenCalledWith(':task list', []);
+    expect(text).toContain('Buy milk');
+    expect(text).not.toContain('ignored');
+  });
+
+  it('prints the decoded data as JSON', async () => {
+    respond({ output: '', data: { memories: [{ id: 'm1', title: 'Note' }] } });
+    expect(JSON.parse(await run('memory', 'list', '--json'))).toEqual([{ id: 'm1', title: 'Note', content: '', tags: [], createdAt: null }]);
+  });
+
+  it('prints the output when the response has no data', async () => {
+    respond({ output: '1. Buy milk' });
+    expect(await run('task', 'list')).toBe('1. Buy milk');
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('prints the output as JSON when the response has no data', async () => {
+    respond({ output: 'Commands: 3' });
+    expect(JSON.parse(await run('logs', 'stats', '--json'))).toEqual({ output: 'Commands: 3', data: null });
+  });
+
+  it('fails when the response has neither data nor output', async () => {
+    respond({ output: '' });
+    expect(JSON.parse(await run('logs', 'list', '--json'))).toEqual({
+      error: { type: 'MissingDataError', message: ':logs list: the response has no data', status: null }
+    });
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('still fails on data of the wrong shape', async () => {
+    respond({ output: 'fallback', data: [{ id: 't1' }] });
+    expect(await run('task', 'list')).toContain('tasks[0].title: expected a string');
+    expect(process.exitCode).toBe(1);
+  });
+});
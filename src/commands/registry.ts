@@ -0,0 +1,519 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ApiService } from '../services/ApiService';
+import { ApiError, MissingDataError } from '../services/ApiErrors';
+import {
+  LOG_LIST_VIEW,
+  LOG_STATS_VIEW,
+  LOG_TODAY_VIEW,
+  MEMORY_LIST_VIEW,
+  MEMORY_SEARCH_VIEW,
+  MEMORY_VIEW,
+  ResultView,
+  TASK_LIST_VIEW
+} from './renderers';
+import { expandFlagValues } from '../utils/tokenize';
+
+export interface ArgumentDefinition {
+  name: string;
+  description: string;
+  optional?: boolean;
+  variadic?: boolean;
+}
+
+export interface OptionDefinition {
+  // Long name without dashes; sent to the dashboard as `--<name>`
+  name: string;
+  short?: string;
+  // Placeholder for the value; options without one are boolean flags
+  value?: string;
+  description: string;
+}
+
+/**
+ * What running a command does: the dashboard command it maps to, what it accepts,
+ * and the messages shown while it runs in the local CLI
+ */
+export interface ActionDefinition {
+  dashboardCommand: string;
+  arguments?: ArgumentDefinition[];
+  options?: OptionDefinition[];
+  progress?: string;
+  success?: string;
+  failure?: string;
+  heading?: string;
+  // Loads and renders the typed result; without one the backend's output is shown
+  view?: ResultView<unknown>;
+}
+
+export interface SubcommandDefinition extends ActionDefinition {
+  name: string;
+  aliases?: string[];
+  description: string;
+}
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  description: string;
+  subcommands: SubcommandDefinition[];
+  // Words that don't name a subcommand are passed to this action as arguments
+  action?: ActionDefinition;
+  // Otherwise a missing or unknown subcommand runs this one, without arguments
+  defaultSubcommand?: string;
+  // Built-ins of the dashboard terminal that only make sense as remote `:` commands
+  remoteOnly?: boolean;
+}
+
+// `--json` prints the result, or the error, as JSON for scripts
+const JSON_OPTION: OptionDefinition = { name: 'json', description: 'Print the result as JSON' };
+
+/**
+ * Every Echo command, defined once. The commander tree, the remote `:` command parser
+ * and the command list in `e version` are all generated from this table.
+ */
+export const COMMAND_REGISTRY: CommandDefinition[] = [
+  {
+    name: 'task',
+    description: 'Task management operations',
+    defaultSubcommand: 'list',
+    subcommands: [
+      {
+        name: 'list',
+        aliases: ['ls'],
+        description: 'List all tasks',
+        dashboardCommand: ':task list',
+        options: [JSON_OPTION],
+        view: TASK_LIST_VIEW,
+        progress: 'Fetching tasks...',
+        failure: 'Failed to fetch tasks'
+      },
+      {
+        name: 'add',
+        aliases: ['create'],
+        description: 'Add a new task',
+        dashboardCommand: ':task add',
+        arguments: [{ name: 'title', description: 'Task title' }],
+        options: [{ name: 'description', short: 'd', value: 'description', description: 'Task description' }],
+        progress: 'Adding task...',
+        success: 'Task added successfully',
+        failure: 'Failed to add task'
+      },
+      {
+        name: 'complete',
+        aliases: ['done'],
+        description: 'Mark a task as complete',
+        dashboardCommand: ':task complete',
+        arguments: [{ name: 'id', description: 'Task ID' }],
+        progress: 'Completing task...',
+        success: 'Task completed',
+        failure: 'Failed to complete task'
+      },
+      {
+        name: 'delete',
+        aliases: ['rm', 'remove'],
+        description: 'Delete a task',
+        dashboardCommand: ':task delete',
+        arguments: [{ name: 'id', description: 'Task ID' }],
+        progress: 'Deleting task...',
+        success: 'Task deleted',
+        failure: 'Failed to delete task'
+      }
+    ]
+  },
+  {
+    name: 'git',
+    description: 'Git operations',
+    defaultSubcommand: 'status',
+    subcommands: [
+      {
+        name: 'status',
+        description: 'Show git status',
+        dashboardCommand: ':git status',
+        progress: 'Getting git status...',
+        failure: 'Failed to get git status'
+      },
+      {
+        name: 'commit',
+        description: 'Commit changes',
+        dashboardCommand: ':git commit',
+        arguments: [{ name: 'message', description: 'Commit message' }],
+        progress: 'Committing changes...',
+        success: 'Changes committed',
+        failure: 'Failed to commit changes'
+      },
+      {
+        name: 'branches',
+        aliases: ['branch'],
+        description: 'List branches',
+        dashboardCommand: ':git branches',
+        progress: 'Fetching branches...',
+        failure: 'Failed to fetch branches'
+      },
+      {
+        name: 'prs',
+        aliases: ['pr'],
+        description: 'List pull requests',
+        dashboardCommand: ':git prs',
+        progress: 'Fetching pull requests...',
+        failure: 'Failed to fetch pull requests'
+      },
+      {
+        name: 'config',
+        description: 'Show or change the Git integration settings',
+        dashboardCommand: ':git config',
+        arguments: [{ name: 'args', description: 'Setting and value', optional: true, variadic: true }],
+        progress: 'Updating Git settings...',
+        failure: 'Failed to update Git settings'
+      }
+    ]
+  },
+  {
+    name: 'agent',
+    description: 'AI assistance',
+    action: {
+      dashboardCommand: ':agent',
+      arguments: [{ name: 'question', description: 'Question for the AI agent', optional: true, variadic: true }],
+      progress: '🤖 Asking AI agent...',
+      failure: 'Failed to get AI response',
+      heading: '🤖 AI Response:'
+    },
+    subcommands: [
+      {
+        name: 'ask',
+        description: 'Ask the AI agent a question',
+        dashboardCommand: ':agent',
+        arguments: [{ name: 'question', description: 'Question for the AI agent' }],
+        progress: '🤖 Asking AI agent...',
+        failure: 'Failed to get AI response',
+        heading: '🤖 AI Response:'
+      }
+    ]
+  },
+  {
+    name: 'memory',
+    description: 'Memory management operations',
+    defaultSubcommand: 'list',
+    subcommands: [
+      {
+        name: 'list',
+        aliases: ['ls'],
+        description: 'List all saved memories',
+        dashboardCommand: ':memory list',
+        options: [JSON_OPTION],
+        view: MEMORY_LIST_VIEW,
+        progress: 'Fetching memories...',
+        failure: 'Failed to fetch memories'
+      },
+      {
+        name: 'save',
+        description: 'Save a new memory',
+        dashboardCommand: ':memory save',
+        arguments: [{ name: 'title', description: 'Memory title' }],
+        options: [{ name: 'content', short: 'c', value: 'content', description: 'Memory content' }],
+        progress: 'Saving memory...',
+        success: 'Memory saved successfully',
+        failure: 'Failed to save memory'
+      },
+      {
+        name: 'search',
+        description: 'Search memories',
+        dashboardCommand: ':memory search',
+        arguments: [{ name: 'query', description: 'Search text' }],
+        options: [JSON_OPTION],
+        view: MEMORY_SEARCH_VIEW,
+        progress: 'Searching memories...',
+        failure: 'Failed to search memories'
+      },
+      {
+        name: 'get',
+        description: 'Get a specific memory by ID',
+        dashboardCommand: ':memory get',
+        arguments: [{ name: 'id', description: 'Memory ID' }],
+        options: [JSON_OPTION],
+        view: MEMORY_VIEW,
+        progress: 'Fetching memory...',
+        failure: 'Failed to fetch memory'
+      },
+      {
+        name: 'delete',
+        aliases: ['rm'],
+        description: 'Delete a memory by ID',
+        dashboardCommand: ':memory delete',
+        arguments: [{ name: 'id', description: 'Memory ID' }],
+        progress: 'Deleting memory...',
+        success: 'Memory deleted',
+        failure: 'Failed to delete memory'
+      }
+    ]
+  },
+  {
+    name: 'logs',
+    description: 'Session logs operations',
+    defaultSubcommand: 'list',
+    subcommands: [
+      {
+        name: 'list',
+        aliases: ['ls'],
+        description: 'List recent command sessions',
+        dashboardCommand: ':logs list',
+        options: [JSON_OPTION],
+        view: LOG_LIST_VIEW,
+        progress: 'Fetching logs...',
+        failure: 'Failed to fetch logs'
+      },
+      {
+        name: 'stats',
+        description: 'Show usage statistics',
+        dashboardCommand: ':logs stats',
+        options: [JSON_OPTION],
+        view: LOG_STATS_VIEW,
+        progress: 'Fetching statistics...',
+        failure: 'Failed to fetch statistics'
+      },
+      {
+        name: 'today',
+        description: "Show today's activity",
+        dashboardCommand: ':logs today',
+        options: [JSON_OPTION],
+        view: LOG_TODAY_VIEW,
+        progress: "Fetching today's activity...",
+        failure: "Failed to fetch today's activity"
+      }
+    ]
+  },
+  {
+    name: 'plugin',
+    aliases: ['plugins'],
+    description: 'Run dashboard plugin commands',
+    action: {
+      dashboardCommand: ':plugin',
+      arguments: [{ name: 'args', description: 'Plugin name and arguments', optional: true, variadic: true }],
+      progress: 'Running plugin command...',
+      failure: 'Plugin command failed'
+    },
+    subcommands: []
+  },
+  { name: 'help', aliases: ['h'], description: 'Dashboard terminal help', action: { dashboardCommand: ':help' }, subcommands: [], remoteOnly: true },
+  { name: 'clear', aliases: ['cls'], description: 'Clear the dashboard terminal', action: { dashboardCommand: ':clear' }, subcommands: [], remoteOnly: true },
+  { name: 'version', description: 'Dashboard version', action: { dashboardCommand: ':version' }, subcommands: [], remoteOnly: true },
+  { name: 'time', description: 'Dashboard time', action: { dashboardCommand: ':time' }, subcommands: [], remoteOnly: true }
+];
+
+function matchesName(definition: { name: string; aliases?: string[] }, word: string): boolean {
+  const lower = word.toLowerCase();
+  return definition.name === lower || (definition.aliases || []).includes(lower);
+}
+
+/**
+ * Look up a command by name or alias
+ */
+export function findCommand(name: string): CommandDefinition | undefined {
+  return COMMAND_REGISTRY.find(definition => matchesName(definition, name));
+}
+
+/**
+ * Spell known short options the way the local CLI sends them (`-d` becomes `--description`)
+ */
+function normalizeOptions(action: ActionDefinition, args: string[]): string[] {
+  const options = action.options || [];
+  const end = args.indexOf('--');
+  return args.map((arg, index) => {
+    const option = (end === -1 || index < end) ? options.find(candidate => candidate.short && arg === `-${candidate.short}`) : undefined;
+    return option ? `--${option.name}` : arg;
+  });
+}
+
+/**
+ * Map the words of an Echo command (without the leading `:`) to the dashboard command and its arguments
+ */
+export function resolveCommand(words: string[]): { dashboardCommand: string; args: string[] } {
+  const [name, ...rest] = words;
+  if (!name) {
+    return { dashboardCommand: ':help', args: [] };
+  }
+
+  const definition = findCommand(name);
+  if (!definition) {
+    // Unknown commands are passed through; the dashboard may provide them through a plugin
+    return { dashboardCommand: `:${name}`, args: rest };
+  }
+
+  const subcommand = rest.length > 0 ? definition.subcommands.find(sub => matchesName(sub, rest[0])) : undefined;
+  if (subcommand) {
+    return { dashboardCommand: subcommand.dashboardCommand, args: normalizeOptions(subcommand, rest.slice(1)) };
+  }
+  if (definition.action) {
+    return { dashboardCommand: definition.action.dashboardCommand, args: normalizeOptions(definition.action, rest) };
+  }
+
+  const fallback = definition.subcommands.find(sub => sub.name === definition.defaultSubcommand);
+  return { dashboardCommand: fallback ? fallback.dashboardCommand : `:${definition.name}`, args: [] };
+}
+
+function formatArgument(argument: ArgumentDefinition): string {
+  const name = `${argument.name}${argument.variadic ? '...' : ''}`;
+  return argument.optional ? `[${name}]` : `<${name}>`;
+}
+
+function formatOption(option: OptionDefinition): string {
+  const flags = `${option.short ? `-${option.short}, ` : ''}--${option.name}`;
+  return option.value ? `${flags} <${option.value}>` : flags;
+}
+
+/**
+ * Turn parsed commander values back into the argument list the dashboard expects:
+ * positional arguments in order, then `--name value` for each option that was given.
+ * Each value stays one argument, whatever spaces, quotes or newlines it contains.
+ */
+function encodeArguments(action: ActionDefinition, values: unknown[], options: Record<string, unknown>): string[] {
+  const args: string[] = [];
+  for (const value of values) {
+    if (Array.isArray(value)) {
+      // Variadic arguments can carry flags for the dashboard, e.g. `plugin weather --units=metric`
+      args.push(...expandFlagValues(value.map(String)));
+    } else if (value !== undefined) {
+      args.push(String(value));
+    }
+  }
+
+  for (const option of action.options || []) {
+    const value = options[option.name];
+    if (value === undefined || value === false) continue;
+    args.push(`--${option.name}`);
+    if (value !== true) {
+      args.push(String(value));
+    }
+  }
+  return args;
+}
+
+function addAction(command: Command, action: ActionDefinition, apiService: ApiService): void {
+  for (const argument of action.arguments || []) {
+    command.argument(formatArgument(argument), argument.description);
+  }
+  // Options a variadic argument doesn't know about are passed on instead of rejected
+  const last = (action.arguments || [])[(action.arguments || []).length - 1];
+  if (last && last.variadic) {
+    command.allowUnknownOption();
+  }
+  for (const option of action.options || []) {
+    command.option(formatOption(option), option.description);
+  }
+
+  command.action(async (...params: unknown[]) => {
+    const invoked = params[params.length - 1] as Command;
+    const args = encodeArguments(action, invoked.processedArgs, invoked.opts());
+    const json = invoked.opts().json === true;
+
+    const spinner = ora(action.progress || `Running ${action.dashboardCommand}...`).start();
+    try {
+      const values = invoked.processedArgs.filter(value => value !== undefined).map(String);
+      const output = await loadResult(action, apiService, values, args, json);
+
+      if (action.success && !json) {
+        spinner.succeed(action.success);
+      } else {
+        spinner.stop();
+      }
+      if (action.heading && !json) {
+        console.log(chalk.cyan(action.heading));
+      }
+      console.log(output);
+    } catch (error: unknown) {
+      spinner.fail(action.failure || `Failed to run ${action.dashboardCommand}`);
+      if (json) {
+        console.log(JSON.stringify({ error: describeError(error) }, null, 2));
+      } else {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      }
+      process.exitCode = 1;
+    }
+  });
+}
+
+/**
+ * Text for a command's result. Commands with a view load it through the ApiService's typed
+ * methods and render it, or show the backend's output when the response has no `data`;
+ * others always show the output. With `--json` the result is always JSON. Failures are
+ * thrown as ApiError subclasses.
+ */
+async function loadResult(action: ActionDefinition, apiService: ApiService, values: string[], args: string[], json: boolean): Promise<string> {
+  if (action.view) {
+    let value: unknown;
+    try {
+      value = await action.view.load(apiService, values);
+    } catch (error: unknown) {
+      if (error instanceof MissingDataError && error.output) {
+        return formatOutput({ output: error.output }, json);
+      }
+      throw error;
+    }
+    return json ? JSON.stringify(value, null, 2) : action.view.render(value);
+  }
+
+  return formatOutput(await apiService.sendCommand(action.dashboardCommand, args), json);
+}
+
+function formatOutput(response: { output: string; data?: unknown }, json: boolean): string {
+  if (json) {
+    return JSON.stringify({ output: response.output, data: response.data ?? null }, null, 2);
+  }
+  return response.output || 'Command executed successfully';
+}
+
+/**
+ * An error as printed with `--json`: the ApiError subclass, its message and the HTTP status
+ */
+function describeError(error: unknown): { type: string; message: string; status: number | null } {
+  return {
+    type: error instanceof ApiError ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error),
+    status: error instanceof ApiError && error.status !== undefined ? error.status : null
+  };
+}
+
+/**
+ * Build the commander command for a registry entry
+ */
+export function buildCommand(definition: CommandDefinition, apiService: ApiService): Command {
+  const command = new Command(definition.name)
+    .description(definition.description);
+  if (definition.aliases) {
+    command.aliases(definition.aliases);
+  }
+
+  for (const sub of definition.subcommands) {
+    const subcommand = command
+      .command(sub.name)
+      .description(sub.description);
+    if (sub.aliases) {
+      subcommand.aliases(sub.aliases);
+    }
+    addAction(subcommand, sub, apiService);
+  }
+
+  if (definition.action) {
+    addAction(command, definition.action, apiService);
+  }
+  return command;
+}
+
+/**
+ * Commander commands for every entry that can run from the local CLI
+ */
+export function buildCommands(apiService: ApiService): Command[] {
+  return COMMAND_REGISTRY
+    .filter(definition => !definition.remoteOnly)
+    .map(definition => buildCommand(definition, apiService));
+}
+
+/**
+ * One `name - description` line per CLI command, for the command overview
+ */
+export function formatCommandList(): string[] {
+  return COMMAND_REGISTRY
+    .filter(definition => !definition.remoteOnly)
+    .map(definition => `  ${definition.name.padEnd(8)} - ${definition.description}`);
+}
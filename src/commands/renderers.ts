@@ -0,0 +1,93 @@
+import chalk from 'chalk';
+import { ApiService } from '../services/ApiService';
+import { LogEntry, LogStats, Memory, Task } from '../services/EchoModels';
+
+/**
+ * How a command shows its structured result: loaded through one of the ApiService's typed
+ * client methods with the command's arguments, then rendered for the terminal (or printed
+ * as JSON with `--json`)
+ */
+export interface ResultView<T> {
+  load(apiService: ApiService, args: string[]): Promise<T>;
+  render(value: T): string;
+}
+
+const DONE_STATUSES = ['done', 'completed', 'complete', 'closed'];
+
+export function formatTasks(tasks: Task[]): string {
+  if (tasks.length === 0) {
+    return chalk.gray('No tasks');
+  }
+
+  const now = Date.now();
+  return tasks.map(task => {
+    const done = DONE_STATUSES.includes(task.status.toLowerCase());
+    const details = [
+      task.priority ? `${task.priority} priority` : null,
+      task.dueDate ? (!done && task.dueDate.getTime() < now ? chalk.red(`overdue since ${task.dueDate.toLocaleDateString()}`) : `due ${task.dueDate.toLocaleDateString()}`) : null,
+      task.description
+    ].filter(Boolean).join(' · ');
+    const line = `${done ? chalk.green('✔') : chalk.yellow('○')} ${done ? chalk.gray(task.title) : task.title} ${chalk.gray(`(${task.id})`)}`;
+    return details ? `${line}\n  ${chalk.gray(details)}` : line;
+  }).join('\n');
+}
+
+export function formatMemories(memories: Memory[]): string {
+  if (memories.length === 0) {
+    return chalk.gray('No memories');
+  }
+
+  return memories.map(memory => {
+    const preview = memory.content.split('\n')[0];
+    const tags = memory.tags.length > 0 ? chalk.cyan(` [${memory.tags.join(', ')}]`) : '';
+    const line = `${chalk.blue(memory.title)} ${chalk.gray(`(${memory.id})`)}${tags}`;
+    return preview ? `${line}\n  ${chalk.gray(preview.length > 100 ? `${preview.slice(0, 97)}...` : preview)}` : line;
+  }).join('\n');
+}
+
+export function formatMemory(memory: Memory): string {
+  const lines = [
+    `${chalk.blue(memory.title)} ${chalk.gray(`(${memory.id})`)}`,
+    memory.tags.length > 0 ? chalk.cyan(`Tags: ${memory.tags.join(', ')}`) : null,
+    memory.createdAt ? chalk.gray(`Saved ${memory.createdAt.toLocaleString()}`) : null,
+    '',
+    memory.content
+  ];
+  return lines.filter(line => line !== null).join('\n');
+}
+
+export function formatLogEntries(entries: LogEntry[]): string {
+  if (entries.length === 0) {
+    return chalk.gray('No activity');
+  }
+
+  return entries.map(entry => {
+    const duration = entry.executionTime === null ? '' : chalk.gray(` ${entry.executionTime}ms`);
+    return `${chalk.gray(entry.timestamp.toLocaleString())} ${entry.success ? chalk.green('✔') : chalk.red('✖')} ${entry.command}${duration}`;
+  }).join('\n');
+}
+
+export function formatLogStats(stats: LogStats): string {
+  const rate = stats.totalCommands > 0 ? ` (${Math.round((stats.successfulCommands / stats.totalCommands) * 100)}%)` : '';
+  const lines = [
+    `${chalk.blue('Commands: ')}${stats.totalCommands}`,
+    `${chalk.blue('Successful: ')}${chalk.green(String(stats.successfulCommands))}${rate}`,
+    `${chalk.blue('Failed: ')}${stats.failedCommands > 0 ? chalk.red(String(stats.failedCommands)) : '0'}`
+  ];
+  if (stats.averageExecutionTime !== null) {
+    lines.push(`${chalk.blue('Average Time: ')}${Math.round(stats.averageExecutionTime)}ms`);
+  }
+  if (stats.topCommands.length > 0) {
+    lines.push(chalk.blue('Most Used:'));
+    stats.topCommands.forEach(top => lines.push(`  ${top.command} ${chalk.gray(`×${top.count}`)}`));
+  }
+  return lines.join('\n');
+}
+
+export const TASK_LIST_VIEW: ResultView<Task[]> = { load: api => api.getTasks(), render: formatTasks };
+export const MEMORY_LIST_VIEW: ResultView<Memory[]> = { load: api => api.getMemories(), render: formatMemories };
+export const MEMORY_SEARCH_VIEW: ResultView<Memory[]> = { load: (api, [query]) => api.searchMemories(query), render: formatMemories };
+export const MEMORY_VIEW: ResultView<Memory> = { load: (api, [id]) => api.getMemory(id), render: formatMemory };
+export const LOG_LIST_VIEW: ResultView<LogEntry[]> = { load: api => api.getLogs(), render: formatLogEntries };
+export const LOG_TODAY_VIEW: ResultView<LogEntry[]> = { load: api => api.getTodayLogs(), render: formatLogEntries };
+export const LOG_STATS_VIEW: ResultView<LogStats> = { load: api => api.getLogStats(), render: formatLogStats };
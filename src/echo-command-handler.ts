@@ -1,93 +1,58 @@
 import axios from 'axios';
+import { resolveCommand } from './commands/registry';
+import { expandAliases } from './utils/aliases';
+import { ChainResult, Pipeline, StepResult, parseCommandChain, runCommandChain } from './utils/pipeline';
+import { tokenizeEchoCommand } from './utils/tokenize';
+
+export interface ParsedCommand {
+  dashboardCommand: string;
+  args: string[];
+}
 
 /**
- * Parse CLI command format and convert to dashboard format
+ * Parse CLI command format and convert to dashboard format. Words are split like a shell
+ * would, so quoted arguments keep their spaces, quotes and newlines.
  */
-function parseCliCommand(command: string): { dashboardCommand: string; args: string[] } {
+export function parseCliCommand(command: string): ParsedCommand {
   // Remove the leading ':' if present
   const cleanCommand = command.startsWith(':') ? command.slice(1) : command;
-  const parts = cleanCommand.trim().split(/\s+/);
-  
-  if (parts.length === 0) {
-    return { dashboardCommand: ':help', args: [] };
+
+  try {
+    return resolveCommand(tokenizeEchoCommand(cleanCommand));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid command: ${errorMessage}`);
   }
-  
-  const [mainCommand, subCommand, ...args] = parts;
-  
-  // Map CLI commands to dashboard command format
-  switch (mainCommand.toLowerCase()) {
-    case 'agent':
-      if (subCommand === 'ask') {
-        return { dashboardCommand: ':agent', args: args };
-      }
-      return { dashboardCommand: ':agent', args: [subCommand, ...args].filter(Boolean) };
-    
-    case 'task':
-      if (subCommand === 'add' || subCommand === 'create') {
-        return { dashboardCommand: ':task add', args: args };
-      }
-      if (subCommand === 'list') {
-        return { dashboardCommand: ':task list', args: args };
-      }
-      if (subCommand === 'complete' || subCommand === 'done') {
-        return { dashboardCommand: ':task complete', args: args };
-      }
-      if (subCommand === 'delete' || subCommand === 'remove') {
-        return { dashboardCommand: ':task delete', args: args };
-      }
-      return { dashboardCommand: ':task list', args: [] };
-    
-    case 'git':
-      if (subCommand === 'status' || !subCommand) {
-        return { dashboardCommand: ':git status', args: args };
-      }
-      if (subCommand === 'commit') {
-        return { dashboardCommand: ':git commit', args: args };
-      }
-      if (subCommand === 'branches') {
-        return { dashboardCommand: ':git branches', args: args };
-      }
-      if (subCommand === 'prs' || subCommand === 'pr') {
-        return { dashboardCommand: ':git prs', args: args };
-      }
-      if (subCommand === 'config') {
-        return { dashboardCommand: ':git config', args: args };
-      }
-      return { dashboardCommand: ':git status', args: [] };
-    
-    case 'help':
-    case 'h':
-      return { dashboardCommand: ':help', args: args };
-    
-    case 'clear':
-    case 'cls':
-      return { dashboardCommand: ':clear', args: args };
-    
-    case 'version':
-      return { dashboardCommand: ':version', args: args };
-    
-    case 'time':
-      return { dashboardCommand: ':time', args: args };
-    
-    case 'plugin':
-    case 'plugins':
-      return { dashboardCommand: ':plugin', args: [subCommand, ...args].filter(Boolean) };
-    
-    case 'memory':
-      return { dashboardCommand: ':memory', args: args };
-    
-    case 'logs':
-      return { dashboardCommand: ':logs', args: args };
-    
-    default:
-      // If it's already in dashboard format (starts with :), pass through
-      if (command.startsWith(':')) {
-        const [cmd, ...cmdArgs] = command.split(/\s+/);
-        return { dashboardCommand: cmd, args: cmdArgs };
-      }
-      // Otherwise, treat as a plugin or unknown command
-      return { dashboardCommand: `:${mainCommand}`, args: [subCommand, ...args].filter(Boolean) };
+}
+
+/**
+ * Run Echo commands chained with `|`, `&&`, `||` and `;`, with aliases expanded. The whole
+ * line is parsed before anything runs, so a typo in a later command doesn't leave the chain
+ * half done.
+ */
+export async function runEchoChain(
+  command: string,
+  run: (parsed: ParsedCommand, input: string | undefined) => Promise<StepResult>,
+  aliases: Record<string, string> = {}
+): Promise<ChainResult> {
+  const cleanCommand = command.startsWith(':') ? command.slice(1) : command;
+
+  let pipelines: Pipeline[];
+  try {
+    pipelines = parseCommandChain(expandAliases(cleanCommand, aliases));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid command: ${errorMessage}`);
   }
+
+  const parsed = new Map<string, ParsedCommand>();
+  for (const pipeline of pipelines) {
+    for (const step of pipeline.commands) {
+      parsed.set(step, parseCliCommand(step));
+    }
+  }
+
+  return runCommandChain(pipelines, (step, input) => run(parsed.get(step)!, input));
 }
 
 /**
@@ -96,18 +61,37 @@ function parseCliCommand(command: string): { dashboardCommand: string; args: str
 export async function handleEchoCommand(
   command: string, 
   authToken: string, 
+  apiUrl: string,
+  aliases: Record<string, string> = {}
+): Promise<string> {
+  const result = await runEchoChain(command, async (parsed, input) => ({
+    success: true,
+    output: await sendEchoCommand(parsed, input, authToken, apiUrl)
+  }), aliases);
+
+  if (!result.success) {
+    // Keep what the earlier commands printed, like a shell would
+    throw new Error([...result.outputs, result.error || 'Command execution failed'].join('\n'));
+  }
+  return result.outputs.join('\n') || 'Command executed successfully';
+}
+
+/**
+ * Send one dashboard command to the backend API
+ */
+async function sendEchoCommand(
+  parsed: ParsedCommand,
+  input: string | undefined,
+  authToken: string,
   apiUrl: string
 ): Promise<string> {
   try {
-    // Parse and convert CLI command format to dashboard format
-    const { dashboardCommand, args } = parseCliCommand(command);
-    
-    // Send command to the backend API
     const response = await axios.post(
       `${apiUrl}/api/echo-command`,
       { 
-        command: dashboardCommand,
-        args: args
+        command: parsed.dashboardCommand,
+        args: parsed.args,
+        ...(input !== undefined && { input })
       },
       {
         headers: {
@@ -118,7 +102,7 @@ export async function handleEchoCommand(
     );
 
     if (response.data.success) {
-      return response.data.output || 'Command executed successfully';
+      return response.data.output || '';
     } else {
       throw new Error(response.data.error || 'Command execution failed');
     }
@@ -5,31 +5,29 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { TaskCommand } from './commands/TaskCommand';
-import { GitCommand } from './commands/GitCommand';
-import { AgentCommand } from './commands/AgentCommand';
-import { MemoryCommand } from './commands/MemoryCommand';
-import { LogsCommand } from './commands/LogsCommand';
 import { ConfigCommand } from './commands/ConfigCommand';
 import { RemoteCommand } from './commands/RemoteCommand';
+import { RunCommand } from './commands/RunCommand';
+import { AliasCommand } from './commands/AliasCommand';
+import { buildCommands, formatCommandList } from './commands/registry';
 import { ConfigService } from './services/ConfigService';
 import * as packageJson from '../package.json';
 import { ApiService } from './services/ApiService';
+import { AliasService } from './services/AliasService';
+import { formatCommandLine } from './utils/tokenize';
 
 const program = new Command();
 
 // Initialize services
 const configService = new ConfigService();
 const apiService = new ApiService(configService);
+const aliasService = new AliasService(configService);
 
 // Initialize commands
-const taskCommand = new TaskCommand(apiService);
-const gitCommand = new GitCommand(apiService);
-const agentCommand = new AgentCommand(apiService);
-const memoryCommand = new MemoryCommand(apiService);
-const logsCommand = new LogsCommand(apiService);
 const configCommand = new ConfigCommand(configService, apiService);
 const remoteCommand = new RemoteCommand(apiService, configService);
+const runCommand = new RunCommand(apiService, aliasService);
+const aliasCommand = new AliasCommand(aliasService);
 
 // Configure main program
 program
@@ -37,14 +35,12 @@ program
   .description('Echo CLI - Command-line interface for task management, Git operations, and AI assistance')
   .version(packageJson.version);
 
-// Add commands
-program.addCommand(taskCommand.getCommand());
-program.addCommand(gitCommand.getCommand());
-program.addCommand(agentCommand.getCommand());
-program.addCommand(memoryCommand.getCommand());
-program.addCommand(logsCommand.getCommand());
+// Add commands (dashboard commands come from the command registry)
+buildCommands(apiService).forEach(command => program.addCommand(command));
 program.addCommand(configCommand.getCommand());
 program.addCommand(remoteCommand.getCommand());
+program.addCommand(runCommand.getCommand());
+program.addCommand(aliasCommand.getCommand());
 
 // Add version command
 program
@@ -55,13 +51,11 @@ program
     console.log(chalk.gray('Built for Qirvo Dashboard Integration'));
     console.log();
     console.log(chalk.yellow('Commands available:'));
-    console.log('  task     - Task management');
-    console.log('  git      - Git operations');
-    console.log('  agent    - AI assistance');
-    console.log('  memory   - Memory management');
-    console.log('  logs     - Session logs');
+    formatCommandList().forEach(line => console.log(line));
     console.log('  config   - Configuration');
     console.log('  remote   - Remote command execution');
+    console.log('  run      - Chain commands with |, &&, || and ;');
+    console.log('  alias    - Aliases and macros');
     console.log();
     console.log(chalk.gray("Use 'e <command> --help' for more information about a command."));
   });
@@ -73,8 +67,15 @@ program.on('command:*', () => {
   process.exit(1);
 });
 
-// Parse arguments
-program.parse(process.argv);
+// A user-defined alias runs like "e run", with the words after it as its parameters
+const [aliasName, ...aliasArgs] = process.argv.slice(2);
+const isBuiltIn = program.commands.some(cmd => cmd.name() === aliasName || cmd.aliases().includes(aliasName));
+if (aliasName && !isBuiltIn && aliasService.get(aliasName)) {
+  runCommand.runChain(formatCommandLine([aliasName, ...aliasArgs]));
+} else {
+  // Parse arguments
+  program.parse(process.argv);
+}
 
 // Show help if no command provided
 if (!process.argv.slice(2).length) {
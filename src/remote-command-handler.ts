@@ -1,7 +1,48 @@
 import axios from 'axios';
-import { exec } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import { randomUUID } from 'crypto';
+import * as fs from 'fs';
 import * as os from 'os';
+import * as path from 'path';
+import { CommandPolicyService, buildEchoChainSubjects, buildFileSubject, buildPolicySubject, buildSystemChainSubjects } from './services/CommandPolicyService';
+import { RemoteOutputStream, DEFAULT_MAX_OUTPUT_BYTES } from './services/RemoteOutputStream';
+import { EventStreamClient } from './services/EventStreamClient';
+import { ExecutionLedger } from './services/ExecutionLedger';
+import { WorkerPool } from './services/WorkerPool';
+import { killProcessTree, terminateProcessTree } from './utils/process';
+import { ResultOutbox, deliverResult } from './services/ResultOutbox';
+import { backoffDelay } from './utils/backoff';
+import { expandHomeDir } from './utils/patterns';
+import { EnvironmentFingerprint, getEnvironmentFingerprint } from './utils/environment';
+import { CommandSignatureService } from './services/CommandSignatureService';
+import { CommandApprovalService, describePatterns } from './services/CommandApprovalService';
+import { PolicySubject } from './services/CommandPolicyService';
+import { AuditDecision, AuditLog, AuditRecord, hashOutput } from './services/AuditLog';
+import { CommandSandbox, SandboxViolationError } from './services/CommandSandbox';
+import { ResolvedWorkspace, WorkspaceAccessError, WorkspaceService } from './services/WorkspaceService';
+import { CapabilityDetector, CapabilityDocument, summarizeCapabilities } from './services/CapabilityDetector';
+import {
+  FILE_OPERATIONS,
+  FileOperation,
+  FileTransferResult,
+  FileTransferService,
+  UploadManifest
+} from './services/FileTransferService';
+import {
+  DEFAULT_TERMINAL_COLS,
+  DEFAULT_TERMINAL_IDLE_TIMEOUT_MS,
+  DEFAULT_TERMINAL_ROWS,
+  TerminalExit,
+  TerminalSession,
+  openPty
+} from './services/TerminalSession';
+import { buildCommandArgv, findShellOperator, formatShellCommand, tokenizeCommandLine } from './utils/tokenize';
+import { ScheduleService, ScheduledJob } from './services/ScheduleService';
+import { AliasService } from './services/AliasService';
+import { ListenerMetrics } from './services/ListenerMetrics';
+import { HealthReport, MetricsServer } from './services/MetricsServer';
+import { ListenerLog } from './services/ListenerLog';
+import { ListenerTui, TuiHistoryEntry, TuiSnapshot } from './services/ListenerTui';
 
 // Interface definitions
 interface CommandRequest {
@@ -9,20 +50,151 @@ interface CommandRequest {
   command: string;
   args?: string[];
   workingDirectory?: string;
+  workspace?: string;
   timeout?: number;
-  type: 'echo-cli' | 'system';
+  type: 'echo-cli' | 'system' | 'file' | 'terminal';
   userId: string;
   sessionId: string;
   createdAt: string;
+  nonce?: string;
+  signedAt?: string;
+  signature?: string;
+  overwrite?: boolean;
+  transfer?: UploadManifest;
+  cols?: number;
+  rows?: number;
+  idleTimeout?: number;
+  schedule?: { id: string; name?: string; cron: string };
+}
+
+// Input, resize and close events for an open terminal session, signed like commands
+interface TerminalEvent {
+  commandId: string;
+  action: 'input' | 'resize' | 'close';
+  sessionId?: string;
+  userId?: string;
+  data?: string;
+  cols?: number;
+  rows?: number;
+  nonce?: string;
+  signedAt?: string;
+  signature?: string;
+}
+
+interface OutputTruncation {
+  limit: number;
+  totalBytes: number;
+  droppedBytes: { stdout: number; stderr: number };
 }
 
 interface CommandResult {
   success: boolean;
-  output: string;
-  error?: string;
+  status: ResultStatus;
+  output: string | null;
+  error: string | null;
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+  truncation: OutputTruncation | null;
+  workingDirectory: string | null;
+  environment: EnvironmentFingerprint;
+  file: FileTransferResult | null;
   executionTime: number;
+  commandId: string;
+  timestamp: string;
+}
+
+// What actually happened when a command ran, filled in by the system and Echo command paths
+interface ExecutionDetails {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  truncation: OutputTruncation | null;
+  workingDirectory: string;
+  environment: EnvironmentFingerprint;
+  file: FileTransferResult | null;
+}
+
+export type ResultStatus = 'success' | 'failed' | 'cancelled' | 'rejected' | 'denied' | 'approval-timeout';
+
+interface InFlightCommand {
+  request: CommandRequest;
+  state: 'queued' | 'awaiting-approval' | 'running';
+  receivedAt: Date;
+  startedAt: Date | null;
+  child: ChildProcess | null;
+  cancelled: boolean;
+  execution: ExecutionDetails | null;
+  workspace: string | null;
+  signature: AuditDecision | null;
+  policy: AuditDecision | null;
+  approval: AuditDecision | null;
+}
+
+class CommandCancelledError extends Error {
+  constructor() {
+    super('Command cancelled from dashboard');
+    this.name = 'CommandCancelledError';
+  }
+}
+
+class CommandDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandDeniedError';
+  }
+}
+
+class ApprovalTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalTimeoutError';
+  }
+}
+
+export type ConnectionState = 'connected' | 'degraded' | 'reconnecting' | 'failed';
+
+export type TransportMode = 'auto' | 'sse' | 'polling';
+export type ActiveTransport = 'sse' | 'polling' | 'none';
+
+export interface RemoteHandlerOptions {
+  policy?: CommandPolicyService;
+  maxOutputBytes?: number;
+  transport?: TransportMode;
+  ledger?: ExecutionLedger;
+  concurrency?: number;
+  concurrencyLimits?: Record<string, number>;
+  outbox?: ResultOutbox;
+  maxRetries?: number;
+  signatures?: CommandSignatureService;
+  approvals?: CommandApprovalService;
+  audit?: AuditLog;
+  sandbox?: CommandSandbox;
+  workspaces?: WorkspaceService;
+  capabilityRefreshMs?: number;
+  maxFileBytes?: number;
+  terminalIdleTimeoutMs?: number;
+  schedules?: ScheduleService;
+  aliases?: AliasService;
+  metricsPort?: number;
+  metricsHost?: string;
+  log?: ListenerLog;
+  tui?: boolean;
 }
 
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const CAPABILITY_REFRESH_MS = 10 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_RECENT_COMMANDS = 20;
+export const DEFAULT_MAX_RETRIES = 20;
+
 interface SessionInfo {
   sessionId: string;
   isActive: boolean;
@@ -31,22 +203,76 @@ interface SessionInfo {
   platform: string;
 }
 
+/**
+ * What a running listener reports over its control socket, for `e remote status`
+ */
+export type ListenerStatus = ReturnType<RemoteCommandHandler['getSessionInfo']> & { pid: number; detached: boolean };
+
 export default class RemoteCommandHandler {
   private apiUrl: string;
   private authToken: string;
   private sessionId: string;
   private isActive: boolean;
-  private pollInterval: NodeJS.Timeout | null;
-  private heartbeatInterval: NodeJS.Timeout | null;
+  private pollTimer: NodeJS.Timeout | null;
+  private heartbeatTimer: NodeJS.Timeout | null;
+  private statusInterval: NodeJS.Timeout | null;
   private capabilities: string[];
+  private capabilityDetector: CapabilityDetector;
+  private capabilityDocument: CapabilityDocument | null;
+  private capabilityRefreshMs: number;
+  private capabilityTimer: NodeJS.Timeout | null;
   private version: string;
   private platform: string;
   private startTime: Date;
   private commandCount: number;
   private lastHeartbeat: Date | null;
   private lastCommandCheck: Date | null;
+  private policy: CommandPolicyService | null;
+  private signatures: CommandSignatureService | null;
+  private approvals: CommandApprovalService | null;
+  private audit: AuditLog | null;
+  private sandbox: CommandSandbox | null;
+  private workspaces: WorkspaceService | null;
+  private files: FileTransferService;
+  private terminals: Map<string, TerminalSession>;
+  private terminalIdleTimeoutMs: number;
+  private schedules: ScheduleService | null;
+  private aliases: AliasService | null;
+  private scheduleTimer: NodeJS.Timeout | null;
+  private lastScheduleTick: number;
+  private metrics: ListenerMetrics;
+  private metricsServer: MetricsServer | null;
+  private metricsPort: number | null;
+  private metricsHost: string;
+  private metricsUrl: string | null;
+  private log: ListenerLog;
+  private tui: ListenerTui | null;
+  private useTui: boolean;
+  private recentCommands: TuiHistoryEntry[];
+  private maxOutputBytes: number;
+  private transportMode: TransportMode;
+  private transport: ActiveTransport;
+  private eventStream: EventStreamClient | null;
+  private reconnectTimer: NodeJS.Timeout | null;
+  // Failed push channel reconnects in a row; heartbeats succeeding meanwhile don't reset it
+  private reconnectAttempts: number;
+  private ledger: ExecutionLedger;
+  private workerPool: WorkerPool;
+  private inFlight: Map<string, InFlightCommand>;
+  private outbox: ResultOutbox | null;
+  private connectionState: ConnectionState;
+  private consecutiveFailures: number;
+  private maxRetries: number;
+  private recovering: boolean;
+  private lastError: string | null;
+  private exitCode: number;
+
+  constructor(apiUrl: string, authToken: string, options: RemoteHandlerOptions = {}) {
+    this.log = options.log || new ListenerLog();
+    this.tui = null;
+    this.useTui = options.tui ?? false;
+    this.recentCommands = [];
 
-  constructor(apiUrl: string, authToken: string) {
     // Validate and clean the API URL
     if (!apiUrl) {
       console.error('❌ ERROR: API URL is empty or undefined!');
@@ -63,19 +289,73 @@ export default class RemoteCommandHandler {
     this.authToken = authToken;
     this.sessionId = randomUUID();
     this.isActive = false;
-    this.pollInterval = null;
-    this.heartbeatInterval = null;
-    this.capabilities = ['echo-cli', 'system-commands'];
+    this.pollTimer = null;
+    this.heartbeatTimer = null;
+    this.statusInterval = null;
+    this.capabilities = ['echo-cli', 'system-commands', 'files', 'terminal'];
     this.version = require('../package.json').version;
     this.platform = `${os.platform()}-${os.arch()}`;
     this.startTime = new Date();
     this.commandCount = 0;
     this.lastHeartbeat = null;
     this.lastCommandCheck = null;
-
-    console.log(`✅ Remote handler initialized successfully`);
-    console.log(`🔗 Final API URL: '${this.apiUrl}'`);
-    console.log(`🔑 Session ID: ${this.sessionId.slice(0, 8)}...`);
+    this.policy = options.policy || null;
+    this.signatures = options.signatures || null;
+    this.approvals = options.approvals || null;
+    this.audit = options.audit || null;
+    this.sandbox = options.sandbox || null;
+    if (this.sandbox) {
+      this.capabilities.push('sandbox');
+    }
+    this.workspaces = options.workspaces || null;
+    if (this.workspaces) {
+      this.capabilities.push('workspaces');
+    }
+    this.capabilityDetector = new CapabilityDetector({
+      features: [...this.capabilities],
+      workspaces: this.workspaces
+    });
+    this.capabilityDocument = null;
+    this.capabilityRefreshMs = options.capabilityRefreshMs || CAPABILITY_REFRESH_MS;
+    this.capabilityTimer = null;
+    this.files = new FileTransferService(this.apiUrl, authToken, { maxFileBytes: options.maxFileBytes });
+    this.terminals = new Map();
+    this.terminalIdleTimeoutMs = options.terminalIdleTimeoutMs || DEFAULT_TERMINAL_IDLE_TIMEOUT_MS;
+    this.schedules = options.schedules || null;
+    if (this.schedules) {
+      this.capabilities.push('schedules');
+    }
+    this.aliases = options.aliases || null;
+    this.scheduleTimer = null;
+    this.lastScheduleTick = 0;
+    this.metrics = new ListenerMetrics();
+    this.metricsServer = null;
+    this.metricsPort = options.metricsPort ?? null;
+    this.metricsHost = options.metricsHost || '127.0.0.1';
+    this.metricsUrl = null;
+    this.maxOutputBytes = options.maxOutputBytes || DEFAULT_MAX_OUTPUT_BYTES;
+    this.transportMode = options.transport || 'auto';
+    this.transport = 'none';
+    this.eventStream = null;
+    this.reconnectTimer = null;
+    this.reconnectAttempts = 0;
+    this.ledger = options.ledger || new ExecutionLedger(null);
+    this.workerPool = new WorkerPool({
+      concurrency: options.concurrency,
+      limits: options.concurrencyLimits
+    });
+    this.inFlight = new Map();
+    this.outbox = options.outbox || null;
+    this.connectionState = 'connected';
+    this.consecutiveFailures = 0;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.recovering = false;
+    this.lastError = null;
+    this.exitCode = 0;
+
+    this.log.info('listener.init', `✅ Remote handler initialized successfully`);
+    this.log.info('listener.init', `🔗 Final API URL: '${this.apiUrl}'`, { apiUrl: this.apiUrl });
+    this.log.info('listener.init', `🔑 Session ID: ${this.sessionId.slice(0, 8)}...`, { sessionId: this.sessionId });
   }
 
   /**
@@ -83,29 +363,74 @@ export default class RemoteCommandHandler {
    */
   async start(): Promise<void> {
     try {
-      console.log('🔗 Starting remote command handler...');
+      this.log.info('listener.starting', '🔗 Starting remote command handler...');
+
+      // Serve health and metrics locally; a busy port should stop the listener before it registers
+      if (this.metricsPort !== null) {
+        await this.startMetricsServer(this.metricsPort);
+      }
+
+      // Probe the machine so registration advertises what it can run
+      await this.refreshCapabilities();
 
       // Register CLI session
       await this.registerSession();
 
-      // Start polling for commands
-      this.startPolling();
+      this.isActive = true;
+      this.startTime = new Date();
+
+      // Every command this session handles is recorded in its own audit file
+      if (this.audit) {
+        this.audit.open(this.sessionId, this.startTime);
+        this.writeAudit(this.buildSessionRecord('start'));
+      }
+
+      // Receive commands over the push channel, or poll for them
+      await this.startTransport();
 
       // Start heartbeat
       this.startHeartbeat();
+      this.startCapabilityRefresh();
 
-      this.isActive = true;
-      this.startTime = new Date();
+      // Run scheduled jobs from the local config
+      if (this.schedules) {
+        this.startScheduler();
+      }
 
-      // Display initial status
-      this.displayStartupBanner();
+      // Deliver results that could not be reported earlier, including before a restart
+      this.startOutboxDelivery();
 
-      // Start status display updates
-      this.startStatusDisplay();
+      if (this.useTui) {
+        // Full-screen view; log messages are shown in it instead of printed
+        this.tui = new ListenerTui(() => this.getTuiSnapshot());
+        this.log.setSink(entry => this.tui?.addLog(entry));
+        this.tui.start();
+      } else if (this.log.isVerbose()) {
+        // Display initial status
+        this.displayStartupBanner();
+
+        // Start status display updates
+        this.startStatusDisplay();
+      } else {
+        this.log.info('listener.started', '✅ CLI is now listening for remote commands from the dashboard', {
+          sessionId: this.sessionId,
+          apiUrl: this.apiUrl,
+          version: this.version,
+          platform: this.platform,
+          transport: this.transport,
+          capabilities: this.capabilities
+        });
+      }
 
     } catch (error: unknown) {
+      this.isActive = false;
+      this.closeTui();
+      if (this.metricsServer) {
+        this.metricsServer.stop();
+        this.metricsServer = null;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('❌ Failed to start remote command handler:', errorMessage);
+      this.log.error('listener.error', `❌ Failed to start remote command handler: ${errorMessage}`);
       throw error;
     }
   }
@@ -115,29 +440,71 @@ export default class RemoteCommandHandler {
    */
   async stop(): Promise<void> {
     try {
-      console.log('🛑 Stopping remote command handler...');
+      this.closeTui();
+      this.log.info('listener.stopping', '🛑 Stopping remote command handler...');
 
       this.isActive = false;
 
-      // Clear intervals
-      if (this.pollInterval) {
-        clearInterval(this.pollInterval);
-        this.pollInterval = null;
+      // Clear timers
+      if (this.pollTimer) {
+        clearTimeout(this.pollTimer);
+        this.pollTimer = null;
+      }
+
+      if (this.statusInterval) {
+        clearInterval(this.statusInterval);
+        this.statusInterval = null;
+      }
+
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+      }
+
+      if (this.outbox) {
+        this.outbox.stopRetryLoop();
+      }
+
+      if (this.eventStream) {
+        this.eventStream.close();
+        this.eventStream = null;
+      }
+      this.transport = 'none';
+
+      // Don't leave commands running after the listener is gone
+      for (const commandId of this.inFlight.keys()) {
+        this.cancelCommand(commandId);
+      }
+
+      if (this.heartbeatTimer) {
+        clearTimeout(this.heartbeatTimer);
+        this.heartbeatTimer = null;
+      }
+
+      if (this.capabilityTimer) {
+        clearTimeout(this.capabilityTimer);
+        this.capabilityTimer = null;
+      }
+
+      if (this.scheduleTimer) {
+        clearTimeout(this.scheduleTimer);
+        this.scheduleTimer = null;
       }
 
-      if (this.heartbeatInterval) {
-        clearInterval(this.heartbeatInterval);
-        this.heartbeatInterval = null;
+      if (this.metricsServer) {
+        this.metricsServer.stop();
+        this.metricsServer = null;
       }
 
       // Deactivate session
       await this.deactivateSession();
+      this.writeAudit(this.buildSessionRecord('stop'));
 
-      console.log('✅ Remote command handler stopped');
+      this.log.info('listener.stopped', '✅ Remote command handler stopped', { commandCount: this.commandCount });
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('❌ Error stopping remote command handler:', errorMessage);
+      this.log.error('listener.error', `❌ Error stopping remote command handler: ${errorMessage}`);
     }
   }
 
@@ -151,6 +518,8 @@ export default class RemoteCommandHandler {
         {
           sessionId: this.sessionId,
           capabilities: this.capabilities,
+          capabilityDocument: this.capabilityDocument,
+          workspaces: this.getWorkspaceList(),
           version: this.version,
           platform: this.platform
         },
@@ -166,13 +535,13 @@ export default class RemoteCommandHandler {
         throw new Error(response.data.error || 'Failed to register session');
       }
 
-      console.log('📝 CLI session registered successfully');
+      this.log.info('session.registered', '📝 CLI session registered successfully', { sessionId: this.sessionId });
 
     } catch (error: unknown) {
       const errorMessage = axios.isAxiosError(error)
         ? error.response?.data?.error || error.message
         : error instanceof Error ? error.message : String(error);
-      console.error('❌ Failed to register CLI session:', errorMessage);
+      this.log.error('session.error', `❌ Failed to register CLI session: ${errorMessage}`);
       throw error;
     }
   }
@@ -194,37 +563,190 @@ export default class RemoteCommandHandler {
       const errorMessage = axios.isAxiosError(error)
         ? error.response?.data?.error || error.message
         : error instanceof Error ? error.message : String(error);
-      console.error('❌ Failed to deactivate session:', errorMessage);
+      this.log.error('session.error', `❌ Failed to deactivate session: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Start the command transport, falling back to polling when the push channel is unavailable
+   */
+  async startTransport(): Promise<void> {
+    if (this.transportMode === 'polling') {
+      this.startPolling();
+      return;
+    }
+
+    try {
+      await this.connectEventStream();
+    } catch (error: unknown) {
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response ? `HTTP ${error.response.status}` : error.message
+        : error instanceof Error ? error.message : String(error);
+
+      if (this.transportMode === 'sse') {
+        throw new Error(`Push channel unavailable: ${errorMessage}`);
+      }
+
+      this.log.warn('transport.fallback', `⚠️  Push channel unavailable (${errorMessage}), falling back to polling`, { error: errorMessage });
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Open the Server-Sent Events push channel for incoming commands
+   */
+  private async connectEventStream(): Promise<void> {
+    if (!this.eventStream) {
+      this.eventStream = new EventStreamClient(
+        `${this.apiUrl}/api/remote-cli/stream?sessionId=${this.sessionId}`,
+        this.authToken,
+        {
+          onEvent: (event, data) => this.handleStreamEvent(event, data),
+          onDisconnect: (error) => this.handleStreamDisconnect(error)
+        }
+      );
+    }
+
+    await this.eventStream.connect();
+    this.transport = 'sse';
+    this.reconnectAttempts = 0;
+    this.lastCommandCheck = new Date();
+    this.log.info('transport.connected', '📡 Connected to dashboard push channel', { transport: 'sse' });
+  }
+
+  /**
+   * Handle an event received on the push channel
+   */
+  private handleStreamEvent(event: string, data: string): void {
+    this.lastCommandCheck = new Date();
+
+    if (event !== 'command' && event !== 'commands' && event !== 'cancel' && event !== 'terminal') {
+      return;
+    }
+
+    try {
+      const payload = JSON.parse(data);
+
+      if (event === 'cancel') {
+        const targets: Array<string | { commandId: string }> = Array.isArray(payload) ? payload : [payload];
+        targets.forEach(target => this.cancelCommand(typeof target === 'string' ? target : target.commandId));
+        return;
+      }
+
+      if (event === 'terminal') {
+        const events: TerminalEvent[] = Array.isArray(payload) ? payload : [payload];
+        events.forEach(terminalEvent => this.handleTerminalEvent(terminalEvent));
+        return;
+      }
+
+      const commands: CommandRequest[] = Array.isArray(payload) ? payload : [payload];
+      this.handleIncomingCommands(commands);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log.error('transport.error', `❌ Invalid command received on push channel: ${errorMessage}`);
     }
   }
 
+  /**
+   * Reconnect the push channel after it drops, or fall back to polling
+   */
+  private handleStreamDisconnect(error?: Error): void {
+    if (!this.isActive) return;
+
+    this.log.warn('transport.disconnected', `⚠️  Push channel disconnected${error ? `: ${error.message}` : ''}`, { error: error ? error.message : null });
+    this.transport = 'none';
+    this.scheduleStreamReconnect(backoffDelay(this.reconnectAttempts + 1, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS));
+  }
+
+  /**
+   * Try the push channel again after a backoff delay that grows with every failed attempt.
+   * In `sse` mode it keeps trying; otherwise the first failure falls back to polling.
+   */
+  private scheduleStreamReconnect(delay: number): void {
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.isActive) return;
+
+      try {
+        await this.connectEventStream();
+      } catch (reconnectError: unknown) {
+        const errorMessage = reconnectError instanceof Error ? reconnectError.message : String(reconnectError);
+        if (isSessionLost(reconnectError)) {
+          this.recoverSession();
+        }
+        if (this.transportMode === 'sse') {
+          this.reconnectAttempts++;
+          const retryDelay = backoffDelay(this.reconnectAttempts + 1, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+          this.log.warn('transport.retry', `⏳ Push channel reconnect failed (${errorMessage}), retrying in about ${Math.round(retryDelay / 1000)}s (attempt ${this.reconnectAttempts})`, { error: errorMessage, attempt: this.reconnectAttempts });
+          this.scheduleStreamReconnect(retryDelay);
+          return;
+        }
+        this.log.warn('transport.fallback', `⚠️  Push channel reconnect failed (${errorMessage}), falling back to polling`, { error: errorMessage });
+        this.eventStream = null;
+        this.startPolling();
+      }
+    }, delay);
+  }
+
   /**
    * Start polling for pending commands
    */
   startPolling(): void {
-    this.pollInterval = setInterval(async () => {
+    this.transport = 'polling';
+    this.schedulePoll(POLL_INTERVAL_MS);
+  }
+
+  private schedulePoll(delay: number): void {
+    this.pollTimer = setTimeout(async () => {
       if (!this.isActive) return;
 
+      // Registration is retried separately while the session is being recovered
+      if (this.recovering) {
+        this.schedulePoll(POLL_INTERVAL_MS);
+        return;
+      }
+
       try {
         await this.checkForCommands();
+        this.recordSuccess();
+        this.schedulePoll(POLL_INTERVAL_MS);
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error('❌ Error during polling:', errorMessage);
+        this.log.error('poll.error', `❌ Error checking for commands: ${describeError(error)}`, { consecutiveFailures: this.consecutiveFailures + 1 });
+        this.metrics.recordPollError();
+        const nextDelay = this.recordFailure(error);
+        if (nextDelay !== null) {
+          this.schedulePoll(nextDelay);
+        }
       }
-    }, 5000); // Poll every 5 seconds
+    }, delay);
   }
 
   /**
    * Start heartbeat to keep session alive
    */
   startHeartbeat(): void {
-    this.heartbeatInterval = setInterval(async () => {
+    this.scheduleHeartbeat(HEARTBEAT_INTERVAL_MS);
+  }
+
+  private scheduleHeartbeat(delay: number): void {
+    this.heartbeatTimer = setTimeout(async () => {
       if (!this.isActive) return;
 
+      if (this.recovering) {
+        this.scheduleHeartbeat(HEARTBEAT_INTERVAL_MS);
+        return;
+      }
+
       try {
         await axios.put(
           `${this.apiUrl}/api/cli-session`,
-          { sessionId: this.sessionId },
+          // Keep the dashboard's view of this machine's capabilities and workspaces current
+          {
+            sessionId: this.sessionId,
+            capabilities: this.capabilities,
+            capabilityDocument: this.capabilityDocument,
+            workspaces: this.getWorkspaceList()
+          },
           {
             headers: {
               'Authorization': `Bearer ${this.authToken}`,
@@ -233,220 +755,1272 @@ export default class RemoteCommandHandler {
           }
         );
         this.lastHeartbeat = new Date();
+        this.recordSuccess();
+        this.scheduleHeartbeat(HEARTBEAT_INTERVAL_MS);
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error('❌ Heartbeat failed:', errorMessage);
+        this.log.error('heartbeat.error', `❌ Heartbeat failed: ${describeError(error)}`, { consecutiveFailures: this.consecutiveFailures + 1 });
+        this.metrics.recordHeartbeatError();
+        const nextDelay = this.recordFailure(error);
+        if (nextDelay !== null) {
+          this.scheduleHeartbeat(nextDelay);
+        }
       }
-    }, 30000); // Heartbeat every 30 seconds
+    }, delay);
   }
 
   /**
-   * Check for pending commands
+   * Probe the machine again; the next heartbeat carries the new document
    */
-  async checkForCommands(): Promise<void> {
-    try {
-      this.lastCommandCheck = new Date();
-
-      const fullUrl = `${this.apiUrl}/api/remote-cli?action=pending&sessionId=${this.sessionId}`;
+  async refreshCapabilities(): Promise<CapabilityDocument> {
+    const document = await this.capabilityDetector.detect();
+    this.capabilityDocument = document;
+    this.capabilities = summarizeCapabilities(document);
+    return document;
+  }
 
-      const response = await axios.get(
-        fullUrl,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.authToken}`
-          }
-        }
-      );
+  private startCapabilityRefresh(): void {
+    this.capabilityTimer = setTimeout(async () => {
+      if (!this.isActive) return;
 
-      if (response.data.success && response.data.commands.length > 0) {
-        console.log(`📨 Received ${response.data.commands.length} command(s) from dashboard`);
-        for (const command of response.data.commands) {
-          await this.executeCommand(command);
-        }
+      try {
+        await this.refreshCapabilities();
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.log.error('capabilities.error', `❌ Capability detection failed: ${errorMessage}`);
       }
+      this.startCapabilityRefresh();
+    }, this.capabilityRefreshMs);
+  }
+
+  /**
+   * Serve /healthz, /status and /metrics on a local port
+   */
+  private async startMetricsServer(port: number): Promise<void> {
+    this.metricsServer = new MetricsServer({
+      health: () => this.getHealth(),
+      status: () => this.getSessionInfo(),
+      metrics: () => this.renderMetrics()
+    });
 
+    try {
+      this.metricsUrl = await this.metricsServer.start(port, this.metricsHost);
     } catch (error: unknown) {
+      this.metricsServer = null;
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('❌ Error checking for commands:', errorMessage);
+      throw new Error(`Could not serve metrics on ${this.metricsHost}:${port}: ${errorMessage}`);
     }
+    this.log.info('metrics.listening', `📊 Health and metrics at ${this.metricsUrl}/healthz, /status and /metrics`, { url: this.metricsUrl });
   }
 
   /**
-   * Execute a remote command
+   * Healthy while the listener is active, connected (possibly degraded) and heartbeating
    */
-  async executeCommand(commandRequest: CommandRequest): Promise<void> {
-    const startTime = Date.now();
-    let result: string | null = null;
-    let error: string | null = null;
+  getHealth(): HealthReport {
+    if (!this.isActive) {
+      return { healthy: false, reason: 'listener is not active' };
+    }
+    if (this.connectionState === 'failed' || this.connectionState === 'reconnecting') {
+      return { healthy: false, reason: `connection ${this.connectionState}${this.lastError ? `: ${this.lastError}` : ''}` };
+    }
 
-    // Increment command counter
-    this.commandCount++;
+    const lastBeat = (this.lastHeartbeat || this.startTime).getTime();
+    const ageMs = Date.now() - lastBeat;
+    if (ageMs > 3 * HEARTBEAT_INTERVAL_MS) {
+      return { healthy: false, reason: `no successful heartbeat for ${formatDuration(ageMs)}` };
+    }
+    return { healthy: true, reason: this.connectionState };
+  }
 
-    try {
-      console.log(`\n🚀 [${this.commandCount}] Executing: ${commandRequest.command}`);
-      console.log(`🔄 Command Type: ${commandRequest.command.startsWith(':') ? 'Echo CLI' : 'System'}`);
+  /**
+   * Counters and gauges in the Prometheus text format
+   */
+  renderMetrics(): string {
+    return this.metrics.render({
+      uptimeSeconds: Math.round((Date.now() - this.startTime.getTime()) / 1000),
+      lastHeartbeatAgeSeconds: this.lastHeartbeat ? (Date.now() - this.lastHeartbeat.getTime()) / 1000 : null,
+      connectionState: this.connectionState,
+      queueDepth: this.workerPool.getQueueDepth(),
+      inFlight: this.inFlight.size,
+      workersBusy: this.workerPool.getRunningCount(),
+      workers: this.workerPool.getConcurrency(),
+      terminals: this.terminals.size
+    });
+  }
 
-      // Check if it's an Echo CLI command
-      if (commandRequest.command.startsWith(':')) {
-        result = await this.executeEchoCommand(commandRequest);
-      } else {
-        result = await this.executeSystemCommand(commandRequest);
-      }
+  /**
+   * Check for pending commands
+   */
+  async checkForCommands(): Promise<void> {
+    this.lastCommandCheck = new Date();
 
-      const executionTime = Date.now() - startTime;
-      console.log(`✅ [${this.commandCount}] Command completed in ${executionTime}ms`);
-      if (result) {
-        console.log(`📝 Output: ${result.slice(0, 100)}${result.length > 100 ? '...' : ''}`);
+    const fullUrl = `${this.apiUrl}/api/remote-cli?action=pending&sessionId=${this.sessionId}`;
+
+    const response = await axios.get(
+      fullUrl,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.authToken}`
+        }
       }
+    );
 
-    } catch (err: unknown) {
-      error = err instanceof Error ? err.message : String(err);
-      console.error(`❌ [${this.commandCount}] Command failed: ${error}`);
+    if (response.data.success && Array.isArray(response.data.cancellations)) {
+      response.data.cancellations.forEach((commandId: string) => this.cancelCommand(commandId));
     }
 
-    const executionTime = Date.now() - startTime;
+    if (response.data.success && Array.isArray(response.data.terminal)) {
+      response.data.terminal.forEach((terminalEvent: TerminalEvent) => this.handleTerminalEvent(terminalEvent));
+    }
 
-    // Report result back to server
-    await this.reportCommandResult(commandRequest, result, error, executionTime);
-    console.log(`📤 [${this.commandCount}] Result reported to dashboard\n`);
+    if (response.data.success && response.data.commands.length > 0) {
+      this.handleIncomingCommands(response.data.commands);
+    }
   }
 
   /**
-   * Execute Echo CLI command
+   * Mark the connection healthy after a successful request
    */
-  async executeEchoCommand(commandRequest: CommandRequest): Promise<string> {
-    try {
-      // Import the echo command handler
-      const { handleEchoCommand } = await import('./echo-command-handler');
+  private recordSuccess(): void {
+    if (this.recovering) return;
 
-      const result = await handleEchoCommand(
-        commandRequest.command,
-        this.authToken,
-        this.apiUrl
-      );
-
-      return result;
-
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Echo CLI command failed: ${errorMessage}`);
+    if (this.connectionState !== 'connected') {
+      this.log.info('connection.restored', '🟢 Connection to dashboard restored');
     }
+    this.connectionState = 'connected';
+    this.consecutiveFailures = 0;
+    this.lastError = null;
   }
 
   /**
-   * Execute system command
+   * Track a failed poll or heartbeat. Returns the backoff delay before the next attempt,
+   * or null once the retry limit is reached and the listener has given up.
    */
-  async executeSystemCommand(commandRequest: CommandRequest): Promise<string> {
-    return new Promise<string>((resolve, reject) => {
-      const { command, args = [], workingDirectory, timeout = 30000 } = commandRequest;
-
-      // Build full command
-      const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command;
-
-      const options: any = {
-        timeout,
-        maxBuffer: 1024 * 1024, // 1MB buffer
-        encoding: 'utf8'
-      };
+  private recordFailure(error: unknown): number | null {
+    this.consecutiveFailures++;
+    this.lastError = describeError(error);
 
-      if (workingDirectory) {
-        options.cwd = workingDirectory;
-      }
+    if (this.maxRetries > 0 && this.consecutiveFailures > this.maxRetries) {
+      this.giveUp();
+      return null;
+    }
 
-      exec(fullCommand, options, (error, stdout, stderr) => {
-        if (error) {
-          reject(new Error(`Command failed: ${error.message}`));
-          return;
-        }
+    if (isSessionLost(error)) {
+      this.recoverSession();
+    } else if (!this.recovering) {
+      this.connectionState = 'degraded';
+    }
 
-        // Convert to string if it's a buffer
-        const stdoutStr = stdout ? stdout.toString() : '';
-        const stderrStr = stderr ? stderr.toString() : '';
-        const output = stdoutStr || stderrStr || 'Command completed successfully';
-        resolve(output.trim());
-      });
-    });
+    return backoffDelay(this.consecutiveFailures, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
   }
 
   /**
-   * Report command result back to server
+   * Re-register the session after the backend expired or forgot it
    */
-  async reportCommandResult(
-    commandRequest: CommandRequest,
-    result: string | null,
-    error: string | null,
-    executionTime: number
-  ): Promise<void> {
-    try {
-      // Import crypto properly
-      const crypto = require('crypto');
+  private async recoverSession(): Promise<void> {
+    if (this.recovering) return;
 
-      // Generate a command ID based on the request
-      const commandId = crypto
-        .createHash('sha256')
-        .update(`${this.sessionId}-${commandRequest.command}-${Date.now()}`)
-        .digest('hex')
-        .slice(0, 16);
+    this.recovering = true;
+    this.connectionState = 'reconnecting';
+    this.log.warn('session.lost', '🔄 Session lost - re-registering with dashboard...');
 
-      const response = await axios.put(
-        `${this.apiUrl}/api/remote-cli`,
-        {
-          commandId,
-          result: {
-            success: !error,
-            output: result,
-            error,
-            executionTime,
-            commandId,
-            timestamp: new Date().toISOString()
-          }
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.authToken}`,
-            'Content-Type': 'application/json'
-          }
+    while (this.isActive) {
+      try {
+        await this.registerSession();
+        this.recovering = false;
+        this.recordSuccess();
+        this.log.info('session.registered', '✅ Session re-registered', { sessionId: this.sessionId });
+        return;
+      } catch (error: unknown) {
+        this.consecutiveFailures++;
+        this.lastError = describeError(error);
+
+        if (this.maxRetries > 0 && this.consecutiveFailures > this.maxRetries) {
+          this.recovering = false;
+          this.giveUp();
+          return;
         }
-      );
 
-      if (!response.data.success) {
-        console.error('❌ Failed to report command result:', response.data.error);
+        const delay = backoffDelay(this.consecutiveFailures, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+        this.log.warn('session.retry', `⏳ Retrying registration in ${Math.round(delay / 1000)}s (attempt ${this.consecutiveFailures})`, { delayMs: delay, attempt: this.consecutiveFailures });
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
-
-    } catch (err: unknown) {
-      const errorMessage = axios.isAxiosError(err)
-        ? err.response?.data?.error || err.message
-        : err instanceof Error ? err.message : String(err);
-      console.error('❌ Error reporting command result:', errorMessage);
     }
+
+    this.recovering = false;
   }
 
   /**
-   * Display startup banner with initial status
+   * Stop the listener after too many consecutive failures
    */
-  private displayStartupBanner(): void {
-    console.clear();
-    console.log('\n' + '='.repeat(70));
-    console.log('🚀 QIRVO ECHO CLI - REMOTE COMMAND LISTENER');
-    console.log('='.repeat(70));
-    console.log(`📡 Dashboard URL: ${this.apiUrl}`);
-    console.log(`🔑 Session ID: ${this.sessionId.slice(0, 8)}...`);
-    console.log(`💻 Platform: ${this.platform}`);
-    console.log(`📦 Version: ${this.version}`);
-    console.log(`⚡ Capabilities: ${this.capabilities.join(', ')}`);
-    console.log(`🕐 Started: ${this.startTime.toLocaleString()}`);
-    console.log('='.repeat(70));
-    console.log('✅ CLI is now listening for remote commands from the dashboard');
-    console.log('🛑 Press Ctrl+C to stop the listener\n');
+  private giveUp(): void {
+    if (this.connectionState === 'failed') return;
+
+    this.connectionState = 'failed';
+    this.exitCode = 1;
+    this.log.error('connection.failed', `❌ Giving up after ${this.consecutiveFailures} consecutive failures: ${this.lastError}`, { consecutiveFailures: this.consecutiveFailures, error: this.lastError });
+    this.stop();
   }
 
   /**
-   * Start periodic status display updates
+   * Exit code the process should use once the listener has stopped
    */
-  private startStatusDisplay(): void {
-    // Update status every 10 seconds
-    setInterval(() => {
-      if (this.isActive) {
+  getExitCode(): number {
+    return this.exitCode;
+  }
+
+  /**
+   * Hand commands received from the dashboard to the worker pool
+   */
+  handleIncomingCommands(commands: CommandRequest[]): void {
+    this.log.info('poll.commands', `📨 Received ${commands.length} command(s) from dashboard`, { commandIds: commands.map(command => command.id) });
+
+    for (const command of commands) {
+      this.executeCommand(command).catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.log.error('command.error', `❌ Error executing command ${command.id}: ${errorMessage}`, { commandId: command.id });
+      });
+    }
+  }
+
+  /**
+   * Cancel a queued or running command, killing its whole process tree
+   */
+  cancelCommand(commandId: string): boolean {
+    const entry = this.inFlight.get(commandId);
+    if (!entry) {
+      this.log.warn('command.cancel', `⚠️  Cancel requested for command ${commandId}, but it is not in flight`, { commandId });
+      return false;
+    }
+
+    this.log.info('command.cancel', `🛑 Cancelling command ${commandId}: ${entry.request.command}`, { commandId });
+    entry.cancelled = true;
+    if (entry.child) {
+      terminateProcessTree(entry.child);
+    }
+    this.terminals.get(commandId)?.close('cancelled');
+    return true;
+  }
+
+  /**
+   * Forward input, resize and close events from the dashboard to an open terminal session
+   */
+  handleTerminalEvent(event: TerminalEvent): boolean {
+    const session = event && this.terminals.get(event.commandId);
+    if (!session) {
+      this.log.warn('terminal.event', `⚠️  Terminal event for ${event && event.commandId}, but no such session is open`, { commandId: event && event.commandId });
+      return false;
+    }
+
+    // Every event is checked like the command that opened the session
+    const { signature, rejection } = this.verifyTerminalEvent(event);
+    if (rejection) {
+      this.log.error('terminal.rejected', `🚫 Rejected ${event.action} event for terminal session ${event.commandId}: ${rejection}`, { commandId: event.commandId, reason: rejection });
+      this.auditTerminalEvent(event, 'rejected', rejection, signature);
+      return false;
+    }
+
+    let handled: boolean;
+    switch (event.action) {
+      case 'input':
+        handled = typeof event.data === 'string';
+        if (handled) session.write(event.data as string);
+        break;
+      case 'resize':
+        handled = session.resize(Number(event.cols), Number(event.rows));
+        break;
+      case 'close':
+        this.log.info('terminal.close', `🖥️  Terminal session ${event.commandId} closed from dashboard`, { commandId: event.commandId });
+        session.close('closed');
+        handled = true;
+        break;
+      default:
+        handled = false;
+    }
+
+    this.auditTerminalEvent(event, handled ? 'accepted' : 'rejected', handled ? null : 'malformed event', signature);
+    return handled;
+  }
+
+  /**
+   * Check a terminal event's signature and that it comes from the user who opened the session.
+   * Returns the reason to reject it, or null.
+   */
+  private verifyTerminalEvent(event: TerminalEvent): { signature: AuditDecision | null; rejection: string | null } {
+    let signature: AuditDecision | null = null;
+    if (this.signatures) {
+      const verification = this.signatures.verify({ ...event }, this.sessionId);
+      if (!verification.valid) {
+        return { signature: { outcome: 'rejected', reason: verification.reason }, rejection: verification.reason };
+      }
+      signature = { outcome: 'verified', reason: verification.reason };
+    }
+
+    const owner = this.inFlight.get(event.commandId)?.request.userId;
+    if (owner && event.userId !== owner) {
+      return { signature, rejection: `not the session owner (sent by ${event.userId || 'an unknown user'})` };
+    }
+
+    return { signature, rejection: null };
+  }
+
+  private auditTerminalEvent(event: TerminalEvent, status: 'accepted' | 'rejected', reason: string | null, signature: AuditDecision | null): void {
+    const input = event.action === 'input' && typeof event.data === 'string' ? event.data : null;
+    this.writeAudit({
+      type: 'terminal',
+      sessionId: this.sessionId,
+      requestId: event.commandId,
+      action: String(event.action),
+      requester: event.userId || null,
+      timestamp: new Date().toISOString(),
+      inputBytes: input === null ? null : Buffer.byteLength(input),
+      inputHash: input === null ? null : hashOutput(input),
+      cols: event.action === 'resize' ? Number(event.cols) : null,
+      rows: event.action === 'resize' ? Number(event.rows) : null,
+      status,
+      reason,
+      signature
+    });
+  }
+
+
+  /**
+   * Execute a remote command
+   */
+  async executeCommand(commandRequest: CommandRequest): Promise<void> {
+    if (!commandRequest.id) {
+      this.log.error('command.error', `❌ Ignoring command without an id: ${commandRequest.command}`);
+      return;
+    }
+
+    // Never run a command this machine has already started, even if it is delivered again
+    if (this.ledger.has(commandRequest.id)) {
+      this.log.info('command.duplicate', `⏭️  Skipping duplicate delivery of command ${commandRequest.id}`, { commandId: commandRequest.id });
+      await this.acknowledgeCommand(commandRequest.id);
+      return;
+    }
+
+    // Refuse anything not signed by the pinned dashboard key before recording it, so a
+    // forged delivery can't mark a real command id as already run
+    let signature: AuditDecision | null = null;
+    if (this.signatures) {
+      const verification = this.signatures.verify({ ...commandRequest }, this.sessionId);
+      if (!verification.valid) {
+        await this.rejectCommand(commandRequest, verification.reason);
+        return;
+      }
+      signature = { outcome: 'verified', reason: verification.reason };
+    }
+
+    // Record the command before claiming it so concurrent deliveries are ignored
+    this.ledger.markClaimed(commandRequest.id, this.sessionId);
+
+    if (!(await this.claimCommand(commandRequest.id))) {
+      this.ledger.remove(commandRequest.id);
+      return;
+    }
+
+    await this.dispatchCommand(commandRequest, signature);
+  }
+
+  /**
+   * Track a claimed command while it waits for and runs on a worker
+   */
+  private async dispatchCommand(commandRequest: CommandRequest, signature: AuditDecision | null): Promise<void> {
+    const entry: InFlightCommand = {
+      request: commandRequest,
+      state: 'queued',
+      receivedAt: new Date(),
+      startedAt: null,
+      child: null,
+      cancelled: false,
+      execution: null,
+      workspace: null,
+      signature,
+      policy: null,
+      approval: null
+    };
+    this.inFlight.set(commandRequest.id, entry);
+
+    const subject = buildRequestSubject(commandRequest);
+    const poolKey = subject.type === 'echo-cli' ? `:${subject.executable}` : subject.executable;
+
+    try {
+      // Terminal sessions last as long as someone is typing, so they don't hold a worker
+      if (commandRequest.type === 'terminal') {
+        await this.runCommand(entry);
+      } else {
+        await this.workerPool.run(poolKey, () => this.runCommand(entry));
+      }
+    } finally {
+      this.inFlight.delete(commandRequest.id);
+    }
+  }
+
+  /**
+   * Check for due jobs at the start of every minute
+   */
+  private startScheduler(): void {
+    const now = Date.now();
+    const delay = 60000 - (now % 60000) + 50;
+    this.scheduleTimer = setTimeout(() => {
+      if (!this.isActive) return;
+      this.runDueJobs(new Date());
+      this.startScheduler();
+    }, delay);
+  }
+
+  /**
+   * Start every job due in the minute containing `at`. Each minute is only handled once.
+   */
+  runDueJobs(at: Date): void {
+    if (!this.schedules) return;
+
+    const minute = Math.floor(at.getTime() / 60000);
+    if (minute === this.lastScheduleTick) return;
+    this.lastScheduleTick = minute;
+
+    for (const job of this.schedules.due(at)) {
+      this.runScheduledJob(job).catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.log.error('schedule.error', `❌ Error running scheduled job ${job.id}: ${errorMessage}`, { scheduleId: job.id });
+      });
+    }
+  }
+
+  /**
+   * Run a scheduled job like a dashboard command. Jobs come from the local config, so there is
+   * nothing to verify or claim, but the policy, approvals and audit log still apply.
+   */
+  async runScheduledJob(job: ScheduledJob): Promise<void> {
+    const running = Array.from(this.inFlight.values()).some(entry => entry.request.schedule?.id === job.id);
+    if (running) {
+      this.log.warn('schedule.skipped', `⏭️  Skipping scheduled job ${job.id} (${job.command}): the previous run is still in progress`, { scheduleId: job.id });
+      return;
+    }
+
+    const commandRequest: CommandRequest = {
+      id: randomUUID(),
+      command: job.command,
+      workingDirectory: job.workingDirectory,
+      workspace: job.workspace,
+      timeout: job.timeout,
+      type: job.command.startsWith(':') ? 'echo-cli' : 'system',
+      userId: `schedule:${job.id}`,
+      sessionId: this.sessionId,
+      createdAt: new Date().toISOString(),
+      schedule: { id: job.id, name: job.name, cron: job.cron }
+    };
+
+    this.log.info('schedule.run', `\n⏰ Scheduled job ${job.name ? `"${job.name}" ` : ''}(${job.id}, ${job.cron})`, { scheduleId: job.id, commandId: commandRequest.id });
+    this.ledger.markClaimed(commandRequest.id, this.sessionId);
+    await this.dispatchCommand(commandRequest, { outcome: 'local', reason: `scheduled job ${job.id}` });
+  }
+
+  /**
+   * Report a command that failed signature verification without running it
+   */
+  private async rejectCommand(commandRequest: CommandRequest, reason: string): Promise<void> {
+    const error = `Rejected: ${reason}`;
+    this.log.error('command.rejected', `🚫 Rejected command ${commandRequest.id} (${commandRequest.command}): ${reason}`, { commandId: commandRequest.id, reason });
+
+    this.ledger.markCompleted(commandRequest.id, false);
+    this.metrics.recordCommand(buildRequestSubject(commandRequest).type, 'rejected', null);
+    this.recordHistory(commandRequest, 'rejected', null);
+    const now = new Date();
+    this.writeAudit(this.buildCommandRecord(
+      {
+        request: commandRequest,
+        receivedAt: now,
+        startedAt: null,
+        execution: null,
+        workspace: commandRequest.workspace || null,
+        signature: { outcome: 'rejected', reason },
+        policy: null,
+        approval: null
+      },
+      'rejected',
+      error,
+      now
+    ));
+
+    if (await this.reportCommandResult(commandRequest, null, error, 0, 'rejected')) {
+      this.ledger.markReported(commandRequest.id);
+    }
+  }
+
+  /**
+   * Run a claimed command on a worker and report its result
+   */
+  private async runCommand(entry: InFlightCommand): Promise<void> {
+    let commandRequest = entry.request;
+    let startTime = Date.now();
+    let result: string | null = null;
+    let error: string | null = null;
+    let status: ResultStatus = 'success';
+
+    // Increment command counter
+    const commandNumber = ++this.commandCount;
+    entry.state = 'running';
+    entry.startedAt = new Date();
+
+    try {
+      if (entry.cancelled) {
+        throw new CommandCancelledError();
+      }
+
+      this.log.info('command.start', `\n🚀 [${commandNumber}] Executing: ${commandRequest.command}`, {
+        commandId: commandRequest.id,
+        number: commandNumber,
+        command: commandRequest.command,
+        type: buildRequestSubject(commandRequest).type
+      });
+      this.log.info('command.type', `🔄 Command Type: ${getCommandTypeLabel(commandRequest)}`, { commandId: commandRequest.id });
+
+      // Commands can target a named workspace instead of a machine-specific path
+      let workspace: ResolvedWorkspace | null = null;
+      if (commandRequest.workspace) {
+        entry.workspace = commandRequest.workspace;
+        if (!this.workspaces) {
+          throw new Error('This listener does not support workspaces');
+        }
+        workspace = this.workspaces.resolve(commandRequest.workspace, commandRequest.workingDirectory);
+        commandRequest = { ...commandRequest, workingDirectory: workspace.workingDirectory };
+        entry.request = commandRequest;
+      } else if (this.sandbox && commandRequest.type === 'file') {
+        // Sandboxed file paths are relative to the first root, like sandboxed commands
+        const base = path.resolve(this.sandbox.getRoots()[0], expandHomeDir(commandRequest.workingDirectory || '.'));
+        commandRequest = { ...commandRequest, workingDirectory: base };
+        entry.request = commandRequest;
+      }
+
+      const subject = buildRequestSubject(commandRequest);
+      const policySubjects = buildPolicySubjects(commandRequest, subject, this.getAliasCommands());
+
+      // Check the local command policy before anything runs
+      if (this.policy) {
+        const decision = this.policy.evaluateAll(policySubjects);
+        entry.policy = { outcome: decision.allowed ? 'allow' : 'deny', reason: decision.reason };
+        if (!decision.allowed) {
+          throw new CommandDeniedError(`Denied by policy: ${decision.reason}`);
+        }
+      }
+
+      // A workspace can add its own, stricter policy
+      if (workspace && workspace.policy) {
+        const decision = workspace.policy.evaluateAll(policySubjects);
+        entry.policy = {
+          outcome: decision.allowed ? 'allow' : 'deny',
+          reason: `workspace "${workspace.name}": ${decision.reason}`
+        };
+        if (!decision.allowed) {
+          throw new CommandDeniedError(`Denied by workspace "${workspace.name}" policy: ${decision.reason}`);
+        }
+      }
+
+      // Ask the local user unless they have always allowed this command
+      if (this.approvals && this.approvals.appliesTo(subject.type)) {
+        await this.awaitApproval(this.approvals, entry, subject, policySubjects);
+        startTime = Date.now();
+      }
+
+      // Check if it's a file transfer, a terminal session or an Echo CLI command
+      if (commandRequest.type === 'file') {
+        result = await this.executeFileCommand(commandRequest, subject.args[0], workspace);
+      } else if (commandRequest.type === 'terminal') {
+        result = await this.executeTerminalSession(commandRequest, workspace ? workspace.env : {});
+      } else if (commandRequest.command.startsWith(':')) {
+        result = await this.executeEchoCommand(commandRequest);
+      } else {
+        result = await this.executeSystemCommand(commandRequest, workspace ? workspace.env : {});
+      }
+
+      // Echo commands can't be interrupted, so drop their result once cancelled
+      if (entry.cancelled) {
+        throw new CommandCancelledError();
+      }
+
+      const executionTime = Date.now() - startTime;
+      this.log.info('command.end', `✅ [${commandNumber}] Command completed in ${executionTime}ms`, {
+        commandId: commandRequest.id,
+        number: commandNumber,
+        status,
+        executionTime
+      });
+      if (result) {
+        this.log.info('command.output', `📝 Output: ${result.slice(0, 100)}${result.length > 100 ? '...' : ''}`, { commandId: commandRequest.id });
+      }
+
+    } catch (err: unknown) {
+      result = null;
+      error = err instanceof Error ? err.message : String(err);
+      status = getErrorStatus(err);
+      this.log.error('command.end', `❌ [${commandNumber}] Command ${status === 'failed' ? 'failed' : status}: ${error}`, {
+        commandId: commandRequest.id,
+        number: commandNumber,
+        status,
+        executionTime: Date.now() - startTime,
+        error
+      });
+    }
+
+    const executionTime = Date.now() - startTime;
+    this.ledger.markCompleted(commandRequest.id, !error);
+    this.metrics.recordCommand(buildRequestSubject(commandRequest).type, status, executionTime);
+    this.recordHistory(commandRequest, status, executionTime);
+    this.writeAudit(this.buildCommandRecord(entry, status, error, new Date()));
+
+    // Report result back to server
+    if (await this.reportCommandResult(commandRequest, result, error, executionTime, status, entry.execution)) {
+      this.ledger.markReported(commandRequest.id);
+      this.log.info('command.reported', `📤 [${commandNumber}] Result reported to dashboard\n`, { commandId: commandRequest.id });
+    }
+  }
+
+  /**
+   * Remember a finished command for the status view
+   */
+  private recordHistory(commandRequest: CommandRequest, status: ResultStatus, executionTime: number | null): void {
+    this.recentCommands.push({
+      id: commandRequest.id,
+      command: commandRequest.command,
+      status,
+      executionTime,
+      finishedAt: new Date()
+    });
+    if (this.recentCommands.length > MAX_RECENT_COMMANDS) {
+      this.recentCommands.shift();
+    }
+  }
+
+  /**
+   * Wait for the local user to approve a command. Throws if it is denied, times out or is cancelled meanwhile.
+   */
+  private async awaitApproval(
+    approvals: CommandApprovalService,
+    entry: InFlightCommand,
+    subject: PolicySubject,
+    steps: PolicySubject[]
+  ): Promise<void> {
+    // Every command of a chain or alias has to be covered, not just the request as sent
+    const remembered = approvals.findPatterns(steps);
+    if (remembered) {
+      const reason = describePatterns(remembered);
+      entry.approval = { outcome: 'approved', reason };
+      this.log.info('approval.remembered', `✅ ${reason.charAt(0).toUpperCase()}${reason.slice(1)}`, { commandId: entry.request.id, patterns: remembered.map(pattern => pattern.pattern) });
+      return;
+    }
+
+    entry.state = 'awaiting-approval';
+    const decision = await approvals.requestApproval(subject, {
+      id: entry.request.id,
+      requester: entry.request.userId
+    }, steps);
+    entry.state = 'running';
+    entry.approval = { outcome: decision.outcome, reason: decision.reason };
+
+    if (entry.cancelled) {
+      throw new CommandCancelledError();
+    }
+    if (decision.outcome === 'denied') {
+      throw new CommandDeniedError(`Denied by local user: ${decision.reason}`);
+    }
+    if (decision.outcome === 'timeout') {
+      throw new ApprovalTimeoutError(`Approval timed out: ${decision.reason}`);
+    }
+  }
+
+  /**
+   * Audit record for a command that finished, failed or was refused
+   */
+  private buildCommandRecord(
+    entry: Pick<InFlightCommand, 'request' | 'receivedAt' | 'startedAt' | 'execution' | 'workspace' | 'signature' | 'policy' | 'approval'>,
+    status: ResultStatus,
+    error: string | null,
+    endedAt: Date
+  ): AuditRecord {
+    const subject = buildRequestSubject(entry.request);
+    const output = entry.execution ? entry.execution.stdout + entry.execution.stderr : '';
+
+    return {
+      type: 'command',
+      sessionId: this.sessionId,
+      requestId: entry.request.id,
+      commandType: subject.type,
+      command: entry.request.command,
+      args: entry.request.args || [],
+      workspace: entry.workspace,
+      cwd: subject.workingDirectory,
+      requester: entry.request.userId || null,
+      receivedAt: entry.receivedAt.toISOString(),
+      startedAt: entry.startedAt ? entry.startedAt.toISOString() : null,
+      endedAt: endedAt.toISOString(),
+      durationMs: entry.startedAt ? endedAt.getTime() - entry.startedAt.getTime() : 0,
+      status,
+      exitCode: entry.execution ? entry.execution.exitCode : null,
+      error,
+      outputBytes: Buffer.byteLength(output),
+      outputHash: hashOutput(output),
+      signature: entry.signature,
+      policy: entry.policy,
+      approval: entry.approval
+    };
+  }
+
+  private getWorkspaceList(): Array<{ name: string; path: string }> {
+    return this.workspaces ? this.workspaces.describe() : [];
+  }
+
+  private buildSessionRecord(event: 'start' | 'stop'): AuditRecord {
+    return {
+      type: 'session',
+      event,
+      sessionId: this.sessionId,
+      timestamp: new Date().toISOString(),
+      apiUrl: this.apiUrl,
+      version: this.version,
+      platform: this.platform,
+      hostname: os.hostname()
+    };
+  }
+
+  /**
+   * Append to the audit log. A failed write is reported but never stops the listener.
+   */
+  private writeAudit(record: AuditRecord): void {
+    if (!this.audit || !this.audit.getSessionPath()) {
+      return;
+    }
+
+    try {
+      this.audit.append(record);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log.error('audit.error', `❌ Failed to write audit log: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Claim a command with the backend before running it.
+   * Returns false if another listener owns it or the claim could not be made.
+   */
+  async claimCommand(commandId: string): Promise<boolean> {
+    try {
+      const response = await axios.post(
+        `${this.apiUrl}/api/remote-cli`,
+        {
+          action: 'claim',
+          commandId,
+          sessionId: this.sessionId
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.authToken}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.data.success === false || response.data.claimed === false) {
+        this.log.info('command.claimed-elsewhere', `⏭️  Command ${commandId} was claimed elsewhere: ${response.data.error || 'already claimed'}`, { commandId });
+        return false;
+      }
+      return true;
+
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error) && error.response) {
+        const status = error.response.status;
+        if (status === 404 || status === 405 || status === 501) {
+          // Backend does not support claims - the local ledger still prevents re-execution
+          return true;
+        }
+        if (status === 409) {
+          this.log.info('command.claimed-elsewhere', `⏭️  Command ${commandId} was claimed elsewhere`, { commandId });
+          return false;
+        }
+      }
+
+      // Leave the command unclaimed; it will be retried when it is delivered again
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : error instanceof Error ? error.message : String(error);
+      this.log.error('command.error', `❌ Failed to claim command ${commandId}: ${errorMessage}`, { commandId });
+      return false;
+    }
+  }
+
+  /**
+   * Acknowledge a redelivered command so the backend stops sending it
+   */
+  async acknowledgeCommand(commandId: string): Promise<void> {
+    try {
+      await axios.post(
+        `${this.apiUrl}/api/remote-cli`,
+        {
+          action: 'ack',
+          commandId,
+          sessionId: this.sessionId,
+          state: this.ledger.get(commandId)?.state
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.authToken}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+    } catch (error: unknown) {
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : error instanceof Error ? error.message : String(error);
+      this.log.error('command.error', `❌ Failed to acknowledge command ${commandId}: ${errorMessage}`, { commandId });
+    }
+  }
+
+  /**
+   * Run a file.get, file.put or file.list request. The target must stay inside the command's
+   * workspace, and inside the sandbox roots (after following symlinks) in sandbox mode.
+   */
+  async executeFileCommand(
+    commandRequest: CommandRequest,
+    targetPath: string,
+    workspace: ResolvedWorkspace | null = null
+  ): Promise<string> {
+    const operation = commandRequest.command as FileOperation;
+    if (!FILE_OPERATIONS.includes(operation)) {
+      throw new Error(`Unknown file operation "${commandRequest.command}"`);
+    }
+
+    let target = targetPath;
+    if (workspace) {
+      // Compare real paths, so a symlink inside the workspace can't lead outside it
+      target = resolveRealPath(target);
+      const relative = path.relative(resolveRealPath(workspace.root), target);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new WorkspaceAccessError(`${targetPath} is outside workspace "${workspace.name}" (${workspace.root})`);
+      }
+    }
+    if (this.sandbox) {
+      target = operation === 'file.put'
+        ? path.join(this.sandbox.resolveWorkingDirectory(path.dirname(target)), path.basename(target))
+        : this.sandbox.resolveWorkingDirectory(target);
+      // Don't follow an existing symlink out of the roots when overwriting it
+      if (operation === 'file.put' && fs.existsSync(target)) {
+        this.sandbox.resolveWorkingDirectory(target);
+      }
+    }
+
+    const entry = this.inFlight.get(commandRequest.id);
+    const execution: ExecutionDetails = {
+      stdout: '',
+      stderr: '',
+      exitCode: 0,
+      signal: null,
+      timedOut: false,
+      truncation: null,
+      workingDirectory: operation === 'file.list' ? target : path.dirname(target),
+      environment: getEnvironmentFingerprint(),
+      file: null
+    };
+    if (entry) {
+      entry.execution = execution;
+    }
+    const isCancelled = () => !!entry && entry.cancelled;
+
+    try {
+      let output: string;
+      if (operation === 'file.list') {
+        const listing = this.files.list(target);
+        execution.file = listing;
+        output = (listing.entries || [])
+          .map(file => `${file.type === 'directory' ? 'd' : file.type === 'symlink' ? 'l' : '-'} ${String(file.size).padStart(10)} ${file.name}`)
+          .join('\n') || '(empty directory)';
+      } else if (operation === 'file.get') {
+        const sent = await this.files.download(commandRequest.id, target, isCancelled);
+        execution.file = sent;
+        output = `Sent ${target} (${sent.size} bytes in ${sent.chunks} chunk(s), ${sent.checksum})`;
+      } else {
+        if (!commandRequest.transfer) {
+          throw new Error('file.put needs a transfer manifest (size, checksum and chunks)');
+        }
+        const written = await this.files.upload(commandRequest.id, target, commandRequest.transfer, !!commandRequest.overwrite, isCancelled);
+        execution.file = written;
+        output = `Wrote ${target} (${written.size} bytes in ${written.chunks} chunk(s), ${written.checksum})`;
+      }
+
+      execution.stdout = output;
+      return output;
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      execution.exitCode = 1;
+      execution.stderr = errorMessage;
+      if (entry && entry.cancelled) {
+        throw new CommandCancelledError();
+      }
+      throw new Error(`File transfer failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Run an interactive session on a pseudo-terminal until it exits, is closed from the dashboard,
+   * or sits idle for too long. Output is streamed like a system command's.
+   */
+  async executeTerminalSession(commandRequest: CommandRequest, env: Record<string, string> = {}): Promise<string> {
+    const { id } = commandRequest;
+    if (this.sandbox) {
+      throw new SandboxViolationError('Interactive terminal sessions are not available in sandbox mode');
+    }
+
+    const argv = [...tokenizeCommandLine(commandRequest.command || getDefaultShell()), ...(commandRequest.args || [])];
+    const cwd = resolveWorkingDirectory(commandRequest.workingDirectory);
+    const cols = commandRequest.cols || DEFAULT_TERMINAL_COLS;
+    const rows = commandRequest.rows || DEFAULT_TERMINAL_ROWS;
+    const idleTimeoutMs = commandRequest.idleTimeout || this.terminalIdleTimeoutMs;
+    const spawnEnv = { ...process.env, ...env };
+
+    const session = new TerminalSession(id, await openPty(argv[0], argv.slice(1), { cwd, env: spawnEnv, cols, rows }), {
+      apiUrl: this.apiUrl,
+      authToken: this.authToken,
+      idleTimeoutMs,
+      maxOutputBytes: this.maxOutputBytes
+    });
+    this.terminals.set(id, session);
+    this.log.info('terminal.open', `🖥️  Terminal session ${id} opened (${session.getBackend()}, ${cols}x${rows})`, { commandId: id, backend: session.getBackend(), cols, rows });
+
+    let exit: TerminalExit;
+    try {
+      exit = await session.wait();
+    } finally {
+      this.terminals.delete(id);
+    }
+    this.log.info('terminal.end', `🖥️  Terminal session ${id} ended (${exit.reason}, ${exit.inputBytes} bytes typed)`, { commandId: id, reason: exit.reason, exitCode: exit.exitCode });
+
+    const entry = this.inFlight.get(id);
+    if (entry) {
+      entry.execution = {
+        stdout: exit.output.stdout,
+        stderr: '',
+        exitCode: exit.exitCode,
+        signal: exit.signal,
+        timedOut: exit.reason === 'idle',
+        truncation: exit.output.truncated
+          ? { limit: exit.output.limit, totalBytes: exit.output.totalBytes, droppedBytes: exit.output.droppedBytes }
+          : null,
+        workingDirectory: cwd,
+        environment: getEnvironmentFingerprint(spawnEnv),
+        file: null
+      };
+    }
+
+    if (exit.reason === 'idle') {
+      throw new Error(`Terminal session closed after ${Math.round(idleTimeoutMs / 1000)}s without activity`);
+    }
+    if (exit.reason === 'exited' && exit.exitCode !== 0) {
+      const status = exit.signal ? `signal ${exit.signal}` : `exit code ${exit.exitCode}`;
+      throw new Error(`Terminal session ended with ${status}`);
+    }
+
+    return exit.reason === 'closed' ? 'Terminal session closed' : 'Terminal session ended';
+  }
+
+  /**
+   * User-defined aliases, read fresh so edits apply without a restart
+   */
+  private getAliasCommands(): Record<string, string> {
+    return this.aliases ? this.aliases.getCommands() : {};
+  }
+
+  /**
+   * Execute Echo CLI command
+   */
+  async executeEchoCommand(commandRequest: CommandRequest): Promise<string> {
+    const entry = this.inFlight.get(commandRequest.id);
+    const execution: ExecutionDetails = {
+      stdout: '',
+      stderr: '',
+      exitCode: 0,
+      signal: null,
+      timedOut: false,
+      truncation: null,
+      workingDirectory: resolveWorkingDirectory(commandRequest.workingDirectory),
+      environment: getEnvironmentFingerprint(),
+      file: null
+    };
+    if (entry) {
+      entry.execution = execution;
+    }
+
+    try {
+      // Import the echo command handler
+      const { handleEchoCommand } = await import('./echo-command-handler');
+
+      const result = await handleEchoCommand(
+        commandRequest.command,
+        this.authToken,
+        this.apiUrl,
+        this.getAliasCommands()
+      );
+
+      execution.stdout = result;
+      return result;
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      execution.exitCode = 1;
+      execution.stderr = errorMessage;
+      throw new Error(`Echo CLI command failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Execute system command, streaming its output to the dashboard while it runs
+   */
+  async executeSystemCommand(commandRequest: CommandRequest, env: Record<string, string> = {}): Promise<string> {
+    const { id, command, args = [], workingDirectory, timeout = 30000 } = commandRequest;
+
+    // Build full command; the arguments are quoted so they mean the same as under the sandbox and the policy
+    const fullCommand = formatShellCommand(command, args);
+
+    // A single command the policy checked runs as exactly the argv it checked, without a shell;
+    // chains still need one, and the policy has checked every part of them
+    const argv = this.inFlight.get(id)?.policy && !findShellOperator(command) ? buildCommandArgv(command, args) : null;
+
+    // In sandbox mode the command runs from argv, with a scrubbed environment and resource limits
+    const spec = this.sandbox
+      ? this.sandbox.prepare(command, args, workingDirectory, env)
+      : argv
+        ? { file: argv[0], args: argv.slice(1), cwd: resolveWorkingDirectory(workingDirectory), env: { ...process.env, ...env } }
+        : { file: fullCommand, args: [], cwd: resolveWorkingDirectory(workingDirectory), env: { ...process.env, ...env } };
+    const cwd = spec.cwd;
+
+    const stream = new RemoteOutputStream(this.apiUrl, this.authToken, id, {
+      maxOutputBytes: this.maxOutputBytes,
+      onError: message => this.log.error('output.error', `❌ Failed to stream command output: ${message}`, { commandId: id })
+    });
+
+    const { exitCode, signal, timedOut, outputExceeded, spawnError } = await new Promise<{
+      exitCode: number | null;
+      signal: string | null;
+      timedOut: boolean;
+      outputExceeded: boolean;
+      spawnError: string | null;
+    }>((resolve) => {
+      const child = spawn(spec.file, spec.args, {
+        shell: !this.sandbox && !argv,
+        cwd,
+        env: spec.env,
+        windowsHide: true,
+        // Run in its own process group so cancellation can kill the whole tree
+        detached: process.platform !== 'win32'
+      });
+
+      const entry = this.inFlight.get(id);
+      if (entry) {
+        entry.child = child;
+      }
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        // Sandboxed commands get no grace period
+        if (this.sandbox) {
+          killProcessTree(child, 'SIGKILL');
+        } else {
+          terminateProcessTree(child);
+        }
+      }, timeout);
+
+      // Sandboxed commands are killed once they go past the output limit instead of running on silently
+      let outputExceeded = false;
+      const onOutput = (name: 'stdout' | 'stderr', chunk: string) => {
+        stream.write(name, chunk);
+        if (this.sandbox && !outputExceeded && stream.isTruncated()) {
+          outputExceeded = true;
+          killProcessTree(child, 'SIGKILL');
+        }
+      };
+
+      child.stdout.setEncoding('utf8');
+      child.stderr.setEncoding('utf8');
+      child.stdout.on('data', (chunk: string) => onOutput('stdout', chunk));
+      child.stderr.on('data', (chunk: string) => onOutput('stderr', chunk));
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        resolve({ exitCode: null, signal: null, timedOut, outputExceeded, spawnError: error.message });
+      });
+
+      child.on('close', (code, closeSignal) => {
+        clearTimeout(timer);
+        resolve({ exitCode: code, signal: closeSignal, timedOut, outputExceeded, spawnError: null });
+      });
+    });
+
+    await stream.end(exitCode, signal);
+
+    const captured = stream.getOutput();
+    const { stdout, stderr } = captured;
+    const entry = this.inFlight.get(id);
+    if (entry) {
+      entry.execution = {
+        stdout,
+        stderr,
+        exitCode,
+        signal,
+        timedOut,
+        truncation: captured.truncated
+          ? { limit: captured.limit, totalBytes: captured.totalBytes, droppedBytes: captured.droppedBytes }
+          : null,
+        workingDirectory: cwd,
+        environment: getEnvironmentFingerprint(spec.env),
+        file: null
+      };
+    }
+
+    if (spawnError) {
+      throw new Error(`Command failed: ${spawnError}`);
+    }
+
+    if (this.inFlight.get(id)?.cancelled) {
+      throw new CommandCancelledError();
+    }
+
+    if (outputExceeded) {
+      throw new Error(`Command killed: output exceeded the ${this.maxOutputBytes} byte limit`);
+    }
+
+    if (timedOut) {
+      throw new Error(`Command failed: timed out after ${timeout}ms`);
+    }
+
+    if (exitCode !== 0) {
+      const detail = stderr.trim() || stdout.trim();
+      const status = signal ? `signal ${signal}` : `exit code ${exitCode}`;
+      throw new Error(`Command failed with ${status}${detail ? `: ${detail}` : ''}`);
+    }
+
+    const output = stdout || stderr || 'Command completed successfully';
+    return output.trim();
+  }
+
+  /**
+   * Report command result back to server.
+   * Results that can't be delivered are written to the outbox and retried.
+   */
+  async reportCommandResult(
+    commandRequest: CommandRequest,
+    result: string | null,
+    error: string | null,
+    executionTime: number,
+    status: ResultStatus = error ? 'failed' : 'success',
+    execution: ExecutionDetails | null = null
+  ): Promise<boolean> {
+    // Results are keyed by the id the dashboard assigned to the request
+    const commandId = commandRequest.id;
+    // A workspace-relative directory means nothing unless the workspace was resolved
+    const { workingDirectory, workspace } = commandRequest;
+    const requestedDirectory = !workspace || (workingDirectory && path.isAbsolute(workingDirectory))
+      ? resolveWorkingDirectory(workingDirectory)
+      : null;
+    const commandResult: CommandResult = {
+      success: !error,
+      status,
+      output: result,
+      error,
+      // Commands that never ran (rejected, denied, ...) report an empty execution
+      exitCode: execution ? execution.exitCode : null,
+      signal: execution ? execution.signal : null,
+      stdout: execution ? execution.stdout : '',
+      stderr: execution ? execution.stderr : '',
+      timedOut: execution ? execution.timedOut : false,
+      truncated: !!execution?.truncation,
+      truncation: execution ? execution.truncation : null,
+      workingDirectory: execution ? execution.workingDirectory : requestedDirectory,
+      environment: execution ? execution.environment : getEnvironmentFingerprint(),
+      file: execution ? execution.file : null,
+      executionTime,
+      commandId,
+      timestamp: new Date().toISOString()
+    };
+    const payload = {
+      commandId,
+      sessionId: this.sessionId,
+      result: commandResult,
+      // The dashboard never saw scheduled jobs, so tell it what ran
+      ...(commandRequest.schedule
+        ? { schedule: { ...commandRequest.schedule, command: commandRequest.command, type: commandRequest.type } }
+        : {})
+    };
+
+    try {
+      await deliverResult(this.apiUrl, this.authToken, payload);
+      return true;
+
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      this.log.error('result.error', `❌ Error reporting command result: ${errorMessage}`, { commandId });
+
+      if (this.outbox) {
+        this.outbox.enqueue(this.apiUrl, payload, errorMessage);
+        this.log.warn('result.queued', `📥 Result for ${commandId} saved to outbox, will retry`, { commandId });
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Flush the outbox now and keep retrying it in the background
+   */
+  private startOutboxDelivery(): void {
+    if (!this.outbox) return;
+
+    const onDelivered = (commandIds: string[]) => {
+      commandIds.forEach(commandId => this.ledger.markReported(commandId));
+      this.log.info('result.delivered', `📤 Delivered ${commandIds.length} queued result(s) from outbox`, { commandIds });
+    };
+
+    // A failed flush is logged; the retry loop keeps running and tries again
+    const onError = (error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log.error('outbox.error', `❌ Failed to deliver queued results: ${errorMessage}`);
+    };
+
+    this.outbox.flush(this.authToken).then(summary => {
+      if (summary.delivered.length > 0) {
+        onDelivered(summary.delivered);
+      }
+    }).catch(onError);
+    this.outbox.startRetryLoop(this.authToken, onDelivered, onError);
+  }
+
+  /**
+   * Display startup banner with initial status
+   */
+  private displayStartupBanner(): void {
+    console.clear();
+    console.log('\n' + '='.repeat(70));
+    console.log('🚀 QIRVO ECHO CLI - REMOTE COMMAND LISTENER');
+    console.log('='.repeat(70));
+    console.log(`📡 Dashboard URL: ${this.apiUrl}`);
+    console.log(`🔑 Session ID: ${this.sessionId.slice(0, 8)}...`);
+    console.log(`💻 Platform: ${this.platform}`);
+    console.log(`📦 Version: ${this.version}`);
+    console.log(`⚡ Capabilities: ${this.capabilities.join(', ')}`);
+    console.log(`📡 Transport: ${this.getTransportLabel()}`);
+    console.log(`🕐 Started: ${this.startTime.toLocaleString()}`);
+    console.log('='.repeat(70));
+    console.log('✅ CLI is now listening for remote commands from the dashboard');
+    console.log('🛑 Press Ctrl+C to stop the listener\n');
+  }
+
+  /**
+   * Start periodic status display updates
+   */
+  private startStatusDisplay(): void {
+    // Update status every 10 seconds
+    this.statusInterval = setInterval(() => {
+      // Don't print over an approval prompt that is waiting for an answer
+      if (this.isActive && !this.approvals?.isPrompting()) {
         this.displayLiveStatus();
       }
     }, 10000);
@@ -467,27 +2041,112 @@ export default class RemoteCommandHandler {
     console.log(`📈 Commands Executed: ${this.commandCount}`);
     console.log(`💓 Last Heartbeat: ${this.lastHeartbeat ? this.lastHeartbeat.toLocaleTimeString() : 'Never'}`);
     console.log(`🔍 Last Command Check: ${this.lastCommandCheck ? this.lastCommandCheck.toLocaleTimeString() : 'Never'}`);
-    console.log(`🔗 Connection Status: ${this.isActive ? '🟢 Active' : '🔴 Inactive'}`);
+    console.log(`🔗 Connection Status: ${this.getConnectionLabel()}`);
+    if (this.lastError && this.connectionState !== 'connected') {
+      console.log(`⚠️  Last Error: ${this.lastError}`);
+    }
+    console.log(`📡 Transport: ${this.getTransportLabel()}`);
+
+    const inFlight = this.getInFlightCommands();
+    console.log(`⚙️  In Flight: ${inFlight.length} (${this.workerPool.getRunningCount()}/${this.workerPool.getConcurrency()} workers busy)`);
+    for (const command of inFlight) {
+      console.log(`   • [${command.state}] ${command.command} (${command.elapsed})`);
+    }
     console.log('-'.repeat(50) + '\n');
   }
 
+  /**
+   * Close the full-screen view and print what it logged, so it stays in the scrollback
+   */
+  private closeTui(): void {
+    if (!this.tui) return;
+    const tui = this.tui;
+    this.tui = null;
+    tui.stop();
+    this.log.setSink(null);
+    for (const entry of tui.getLogEntries()) {
+      this.log[entry.level](entry.event, entry.message, entry.fields);
+    }
+  }
+
+  private getTuiSnapshot(): TuiSnapshot {
+    return {
+      dashboardUrl: this.apiUrl,
+      sessionId: this.sessionId,
+      version: this.version,
+      uptime: this.getUptime(),
+      connectionState: this.connectionState,
+      connectionLabel: this.getConnectionLabel(),
+      lastError: this.lastError,
+      transportLabel: this.getTransportLabel(),
+      lastHeartbeat: this.lastHeartbeat,
+      commandCount: this.commandCount,
+      queueDepth: this.workerPool.getQueueDepth(),
+      workersBusy: this.workerPool.getRunningCount(),
+      workers: this.workerPool.getConcurrency(),
+      inFlight: this.getInFlightCommands(),
+      recentCommands: this.recentCommands
+    };
+  }
+
+  /**
+   * Get a human readable description of the connection health
+   */
+  private getConnectionLabel(): string {
+    if (!this.isActive && this.connectionState !== 'failed') {
+      return '🔴 Inactive';
+    }
+
+    switch (this.connectionState) {
+      case 'connected':
+        return '🟢 Active';
+      case 'degraded':
+        return `🟡 Degraded (${this.consecutiveFailures} consecutive failure(s), retrying with backoff)`;
+      case 'reconnecting':
+        return `🟠 Reconnecting (attempt ${this.consecutiveFailures})`;
+      case 'failed':
+        return '🔴 Failed (gave up)';
+    }
+  }
+
+  /**
+   * Get a human readable description of the active transport
+   */
+  private getTransportLabel(): string {
+    switch (this.transport) {
+      case 'sse':
+        return 'Push (Server-Sent Events)';
+      case 'polling':
+        return this.transportMode === 'polling' ? 'Polling (every 5s)' : 'Polling (every 5s, push unavailable)';
+      default:
+        return 'Reconnecting...';
+    }
+  }
+
   /**
    * Get formatted uptime string
    */
   private getUptime(): string {
-    const now = new Date();
-    const uptimeMs = now.getTime() - this.startTime.getTime();
-    const seconds = Math.floor(uptimeMs / 1000);
-    const minutes = Math.floor(seconds / 60);
-    const hours = Math.floor(minutes / 60);
+    return formatDuration(Date.now() - this.startTime.getTime());
+  }
 
-    if (hours > 0) {
-      return `${hours}h ${minutes % 60}m ${seconds % 60}s`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${seconds % 60}s`;
-    } else {
-      return `${seconds}s`;
-    }
+  /**
+   * Get commands that are queued or running, with their elapsed time
+   */
+  getInFlightCommands() {
+    const now = Date.now();
+    return Array.from(this.inFlight.values()).map(entry => {
+      const elapsedMs = now - (entry.startedAt || entry.receivedAt).getTime();
+      return {
+        id: entry.request.id,
+        command: entry.request.command,
+        state: entry.state,
+        receivedAt: entry.receivedAt,
+        startedAt: entry.startedAt,
+        elapsedMs,
+        elapsed: formatDuration(elapsedMs)
+      };
+    });
   }
 
   /**
@@ -498,13 +2157,174 @@ export default class RemoteCommandHandler {
       sessionId: this.sessionId,
       isActive: this.isActive,
       capabilities: this.capabilities,
+      capabilityDocument: this.capabilityDocument,
       version: this.version,
       platform: this.platform,
       startTime: this.startTime,
       commandCount: this.commandCount,
-      uptime: this.getUptime()
+      uptime: this.getUptime(),
+      connectionState: this.connectionState,
+      connectionLabel: this.getConnectionLabel(),
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      transport: this.transport,
+      transportLabel: this.getTransportLabel(),
+      signingKey: this.signatures?.getActiveKey()?.fingerprint || null,
+      auditLog: this.audit?.getSessionPath() || null,
+      sandbox: this.sandbox ? { roots: this.sandbox.getRoots(), ...this.sandbox.getLimits() } : null,
+      metricsUrl: this.metricsUrl,
+      concurrency: this.workerPool.getConcurrency(),
+      queueDepth: this.workerPool.getQueueDepth(),
+      inFlight: this.getInFlightCommands(),
+      recentCommands: this.recentCommands
     };
   }
 }
 
+/**
+ * Get a readable message from an axios or other error
+ */
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const status = error.response ? ` (HTTP ${error.response.status})` : '';
+    return `${error.response?.data?.error || error.message}${status}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Whether the backend rejected a request because the session expired or is unknown
+ */
+function isSessionLost(error: unknown): boolean {
+  return axios.isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 404);
+}
+
+/**
+ * Format a duration in milliseconds as e.g. "1h 2m 3s"
+ */
+function formatDuration(durationMs: number): string {
+  const seconds = Math.floor(durationMs / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m ${seconds % 60}s`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  } else {
+    return `${seconds}s`;
+  }
+}
+
+/**
+ * Absolute working directory a command runs in, with `~` expanded
+ */
+function resolveWorkingDirectory(workingDirectory?: string): string {
+  return path.resolve(expandHomeDir(workingDirectory || process.cwd()));
+}
+
+/**
+ * Policy subject for any request: file operations are matched on their resolved target path
+ */
+function buildRequestSubject(request: CommandRequest): PolicySubject {
+  if (request.type === 'terminal') {
+    // Terminals spawn their argv directly, so shell syntax in it means nothing
+    return { ...buildPolicySubject(request.command || getDefaultShell(), request.args, request.workingDirectory), type: 'terminal', shell: undefined };
+  }
+  if (request.type === 'file') {
+    const target = (request.args && request.args[0]) || '.';
+    return buildFileSubject(
+      request.command,
+      path.resolve(resolveWorkingDirectory(request.workingDirectory), expandHomeDir(target))
+    );
+  }
+  return buildPolicySubject(request.command, request.args, request.workingDirectory);
+}
+
+/**
+ * Subjects the policy has to allow: every command of a chained system or Echo command (with
+ * aliases expanded), or the request itself
+ */
+function buildPolicySubjects(request: CommandRequest, subject: PolicySubject, aliases: Record<string, string>): PolicySubject[] {
+  if (subject.type === 'system') {
+    return buildSystemChainSubjects(request.command, request.args, request.workingDirectory);
+  }
+  if (subject.type !== 'echo-cli') {
+    return [subject];
+  }
+  try {
+    const subjects = buildEchoChainSubjects(request.command, request.workingDirectory, aliases);
+    return subjects.length === 1 && subjects[0].executable === subject.executable ? [subject] : subjects;
+  } catch {
+    // A malformed chain fails when it runs; the policy sees it as a single command
+    return [subject];
+  }
+}
+
+/**
+ * A path with symlinks resolved. For a path that doesn't exist yet (a file about to be written),
+ * its nearest existing parent is resolved and the rest appended; a dangling symlink is resolved
+ * to where it points, since writing to it creates that file.
+ */
+function resolveRealPath(filePath: string, depth = 0): string {
+  const missing: string[] = [];
+  let current = path.resolve(filePath);
+  for (;;) {
+    let link: string | null = null;
+    try {
+      if (fs.lstatSync(current).isSymbolicLink() && !fs.existsSync(current)) {
+        link = fs.readlinkSync(current);
+      } else {
+        break;
+      }
+    } catch {
+      // Doesn't exist: try its parent
+    }
+    if (link !== null) {
+      if (depth >= 40) {
+        throw new Error(`Too many levels of symbolic links: ${filePath}`);
+      }
+      return path.join(resolveRealPath(path.resolve(path.dirname(current), link), depth + 1), ...missing);
+    }
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    missing.unshift(path.basename(current));
+    current = parent;
+  }
+  return path.join(fs.realpathSync(current), ...missing);
+}
+
+/**
+ * Shell a terminal session runs when the dashboard doesn't name a command
+ */
+function getDefaultShell(): string {
+  return (process.platform === 'win32' ? process.env.ComSpec : process.env.SHELL) || '/bin/sh';
+}
+
+/**
+ * Human readable kind of request, for the console log
+ */
+function getCommandTypeLabel(request: CommandRequest): string {
+  switch (request.type) {
+    case 'file':
+      return 'File transfer';
+    case 'terminal':
+      return 'Interactive terminal';
+    default:
+      return request.command.startsWith(':') ? 'Echo CLI' : 'System';
+  }
+}
+
+/**
+ * Result status reported for a command that did not complete
+ */
+function getErrorStatus(error: unknown): ResultStatus {
+  if (error instanceof CommandCancelledError) return 'cancelled';
+  if (error instanceof CommandDeniedError || error instanceof SandboxViolationError || error instanceof WorkspaceAccessError) {
+    return 'denied';
+  }
+  if (error instanceof ApprovalTimeoutError) return 'approval-timeout';
+  return 'failed';
+}
+
 module.exports = RemoteCommandHandler;
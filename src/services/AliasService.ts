@@ -0,0 +1,147 @@
+import { ConfigService, EchoAlias } from './ConfigService';
+import { findCommand } from '../commands/registry';
+import { parseCommandChain } from '../utils/pipeline';
+import { tokenizeEchoCommand } from '../utils/tokenize';
+
+export interface NamedAlias extends EchoAlias {
+  name: string;
+}
+
+/**
+ * A shareable set of aliases, as written by `e alias export`
+ */
+export interface AliasPack {
+  version: 1;
+  aliases: Record<string, { command: string; description?: string }>;
+}
+
+export interface AliasImportResult {
+  added: string[];
+  replaced: string[];
+  skipped: string[];
+}
+
+const ALIAS_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+// Commands of the local CLI that don't come from the command registry
+const LOCAL_COMMANDS = ['alias', 'config', 'remote', 'run', 'version', 'help'];
+
+/**
+ * User-defined aliases and macros: a name for an Echo command line, with `$1`…`$9` and `$@`
+ * standing for the words typed after it. Aliases are stored in the CLI config and read fresh
+ * for every command, so a running listener picks up changes without a restart.
+ */
+export class AliasService {
+  private configService: ConfigService;
+
+  constructor(configService: ConfigService) {
+    this.configService = configService;
+  }
+
+  list(): NamedAlias[] {
+    const aliases = this.configService.getAliases();
+    return Object.keys(aliases)
+      .sort()
+      .map(name => ({ name, ...aliases[name] }));
+  }
+
+  get(name: string): NamedAlias | null {
+    const alias = this.configService.getAliases()[name];
+    return alias ? { name, ...alias } : null;
+  }
+
+  /**
+   * Command line of every alias by name, for expandAliases
+   */
+  getCommands(): Record<string, string> {
+    const aliases = this.configService.getAliases();
+    const commands: Record<string, string> = {};
+    for (const name of Object.keys(aliases)) {
+      commands[name] = aliases[name].command;
+    }
+    return commands;
+  }
+
+  /**
+   * Define or replace an alias
+   */
+  set(name: string, command: string, description?: string): NamedAlias {
+    validateAlias(name, command);
+
+    const alias: EchoAlias = {
+      command: command.trim(),
+      description,
+      addedAt: new Date().toISOString()
+    };
+    this.configService.setAlias(name, alias);
+    return { name, ...alias };
+  }
+
+  remove(name: string): boolean {
+    return this.configService.removeAlias(name);
+  }
+
+  export(): AliasPack {
+    const aliases: AliasPack['aliases'] = {};
+    for (const alias of this.list()) {
+      aliases[alias.name] = { command: alias.command, description: alias.description };
+    }
+    return { version: 1, aliases };
+  }
+
+  /**
+   * Add the aliases of a pack. Existing aliases are kept unless `replace` is set; the whole
+   * pack is checked before anything is saved.
+   */
+  import(pack: unknown, replace = false): AliasImportResult {
+    const aliases = pack && typeof pack === 'object' ? (pack as Partial<AliasPack>).aliases : undefined;
+    if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) {
+      throw new Error('Not an alias pack: expected an "aliases" object');
+    }
+
+    for (const name of Object.keys(aliases)) {
+      const alias = aliases[name];
+      if (!alias || typeof alias.command !== 'string') {
+        throw new Error(`Alias "${name}" has no command`);
+      }
+      if (alias.description !== undefined && typeof alias.description !== 'string') {
+        throw new Error(`Alias "${name}" has an invalid description`);
+      }
+      validateAlias(name, alias.command);
+    }
+
+    const existing = this.configService.getAliases();
+    const result: AliasImportResult = { added: [], replaced: [], skipped: [] };
+    for (const name of Object.keys(aliases).sort()) {
+      if (existing[name] && !replace) {
+        result.skipped.push(name);
+        continue;
+      }
+      (existing[name] ? result.replaced : result.added).push(name);
+      this.set(name, aliases[name].command, aliases[name].description);
+    }
+    return result;
+  }
+}
+
+function validateAlias(name: string, command: string): void {
+  if (!ALIAS_NAME.test(name)) {
+    throw new Error(`Invalid alias name "${name}". Start with a letter and use letters, numbers, "_" and "-".`);
+  }
+  if (LOCAL_COMMANDS.includes(name) || findCommand(name)) {
+    throw new Error(`"${name}" is a built-in command and can't be used as an alias`);
+  }
+
+  const cleanCommand = command.trim().startsWith(':') ? command.trim().slice(1) : command.trim();
+  if (!cleanCommand) {
+    throw new Error('The command must not be empty');
+  }
+  try {
+    for (const pipeline of parseCommandChain(cleanCommand)) {
+      pipeline.commands.forEach(step => tokenizeEchoCommand(step));
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid command for alias "${name}": ${errorMessage}`);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * A request to the Qirvo backend that failed. `status` is the HTTP status when the server answered.
+ */
+export class ApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * No token is configured, or the backend rejected it (401/403)
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * The task, memory or log asked for doesn't exist (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The backend couldn't be reached: connection refused, DNS failure or timeout
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The backend answered, but not with the payload shape the CLI expects
+ */
+export class InvalidResponseError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * The backend answered with only its text `output`, without the structured `data`
+ * a typed client method decodes (e.g. an older backend)
+ */
+export class MissingDataError extends InvalidResponseError {
+  output: string;
+
+  constructor(message: string, output: string) {
+    super(message);
+    this.name = 'MissingDataError';
+    this.output = output;
+  }
+}
@@ -2,6 +2,18 @@ import axios from 'axios';
 import chalk from 'chalk';
 import { ConfigService } from './ConfigService';
 import { FirebaseAuthService } from './FirebaseAuthService';
+import { ApiError, AuthError, InvalidResponseError, MissingDataError, NetworkError, NotFoundError } from './ApiErrors';
+import {
+  LogEntry,
+  LogStats,
+  Memory,
+  Task,
+  decodeLogEntries,
+  decodeLogStats,
+  decodeMemories,
+  decodeMemory,
+  decodeTasks
+} from './EchoModels';
 
 // Type definitions for axios compatibility
 type AxiosInstance = ReturnType<typeof axios.create>;
@@ -18,7 +30,10 @@ export interface ApiResponse {
   success: boolean;
   output?: string;
   error?: string;
-  data?: any;
+  // Name of the ApiError subclass a failure maps to (AuthError, NotFoundError, ...)
+  errorType?: string;
+  // Structured result, for the decoders in EchoModels
+  data?: unknown;
   status?: number;
 }
 
@@ -75,144 +90,106 @@ export class ApiService {
     return this.configService.getApiUrl();
   }
 
-  async executeCommand(command: string, args: string[] = []): Promise<ApiResponse> {
+  /**
+   * Run a dashboard command; `input` is the output of the previous command in a pipeline.
+   * Failures are reported in `error`, never as output.
+   */
+  async executeCommand(command: string, args: string[] = [], input?: string): Promise<ApiResponse> {
     try {
-      // Get fresh authentication token
-      const authToken = await this.getFreshAuthToken();
-      if (!authToken) {
-        return {
-          success: false,
-          error: 'No authentication token available. Please run "e config setup" first.'
-        };
-      }
-
-      const headers = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${authToken}`
-      };
-
-      const payload = {
-        command,
-        args,
-        userId: this.configService.getUserId()
-      };
-
-      const response: AxiosResponse<any> = await this.client.post(`${this.getApiUrl()}/api/echo-command`, payload, {
-        headers
-      });
-
+      const response = await this.sendCommand(command, args, input);
       return {
         success: true,
-        output: response.data.output || 'Command executed successfully',
+        output: response.output || 'Command executed successfully',
         data: response.data
       };
-    } catch (error: any) {
-      if (error.response) {
-        return {
-          success: false,
-          error: error.response.data?.output || error.response.data?.message || 'API request failed',
-          status: error.response.status
-        };
-      } else {
-        return {
-          success: false,
-          error: error.message || 'Unknown error occurred'
-        };
-      }
-    }
-  }
-
-  // Task operations
-  async getTasks(): Promise<string> {
-    const result = await this.executeCommand(':task list');
-    return result.success ? (result.output || '') : (result.error || 'Failed to get tasks');
-  }
-
-  async addTask(title: string, description?: string): Promise<string> {
-    const args = [title];
-    if (description) {
-      args.push('--description', description);
+    } catch (error: unknown) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorType: error instanceof ApiError ? error.name : undefined,
+        status: error instanceof ApiError ? error.status : undefined
+      };
     }
-    const result = await this.executeCommand(':task add', args);
-    return result.success ? (result.output || '') : (result.error || 'Failed to add task');
   }
 
-  async completeTask(taskId: string): Promise<string> {
-    const result = await this.executeCommand(':task complete', [taskId]);
-    return result.success ? (result.output || '') : (result.error || 'Failed to complete task');
+  // Typed client methods: structured results decoded from the response's `data`
+  async getTasks(): Promise<Task[]> {
+    return decodeTasks(await this.requireData(':task list'));
   }
 
-  async deleteTask(taskId: string): Promise<string> {
-    const result = await this.executeCommand(':task delete', [taskId]);
-    return result.success ? (result.output || '') : (result.error || 'Failed to delete task');
+  async getMemories(): Promise<Memory[]> {
+    return decodeMemories(await this.requireData(':memory list'));
   }
 
-  // Git operations
-  async gitStatus(): Promise<string> {
-    const result = await this.executeCommand(':git status');
-    return result.success ? (result.output || '') : (result.error || 'Failed to get git status');
+  async getMemory(id: string): Promise<Memory> {
+    return decodeMemory(await this.requireData(':memory get', [id]));
   }
 
-  async gitCommit(message: string): Promise<string> {
-    const result = await this.executeCommand(`:git commit "${message}"`);
-    return result.success ? (result.output || '') : (result.error || 'Failed to commit changes');
+  async searchMemories(query: string): Promise<Memory[]> {
+    return decodeMemories(await this.requireData(':memory search', [query]));
   }
 
-  async gitBranches(): Promise<string> {
-    const result = await this.executeCommand(':git branches');
-    return result.success ? (result.output || '') : (result.error || 'Failed to get git branches');
+  async getLogs(): Promise<LogEntry[]> {
+    return decodeLogEntries(await this.requireData(':logs list'));
   }
 
-  // AI Agent
-  async askAgent(question: string): Promise<string> {
-    const result = await this.executeCommand(`:agent "${question}"`);
-    return result.success ? (result.output || '') : (result.error || 'Failed to ask agent');
+  async getTodayLogs(): Promise<LogEntry[]> {
+    return decodeLogEntries(await this.requireData(':logs today'));
   }
 
-  // Memory operations
-  async getMemories(): Promise<string> {
-    const result = await this.executeCommand(':memory list');
-    return result.success ? (result.output || '') : (result.error || 'Failed to get memories');
+  async getLogStats(): Promise<LogStats> {
+    return decodeLogStats(await this.requireData(':logs stats'));
   }
 
-  async saveMemory(title: string, content: string): Promise<string> {
-    let command = `:memory save "${title}"`;
-    if (content) {
-      command += ` --content "${content}"`;
+  private async requireData(command: string, args: string[] = []): Promise<unknown> {
+    const response = await this.sendCommand(command, args);
+    if (response.data === undefined || response.data === null) {
+      throw new MissingDataError(`${command}: the response has no data`, response.output);
     }
-    const result = await this.executeCommand(command);
-    return result.success ? (result.output || '') : (result.error || 'Failed to save memory');
+    return response.data;
   }
 
-  async searchMemories(query: string): Promise<string> {
-    const result = await this.executeCommand(`:memory search "${query}"`);
-    return result.success ? (result.output || '') : (result.error || 'Failed to search memories');
-  }
+  /**
+   * Post a command to the backend, throwing an ApiError subclass when it fails
+   */
+  async sendCommand(command: string, args: string[], input?: string): Promise<{ output: string; data?: unknown }> {
+    const authToken = await this.getFreshAuthToken();
+    if (!authToken) {
+      throw new AuthError('No authentication token available. Please run "e config setup" first.');
+    }
 
-  async getMemory(id: string): Promise<string> {
-    const result = await this.executeCommand(`:memory get ${id}`);
-    return result.success ? (result.output || '') : (result.error || 'Failed to get memory');
-  }
+    const headers = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`
+    };
 
-  async deleteMemory(id: string): Promise<string> {
-    const result = await this.executeCommand(`:memory delete ${id}`);
-    return result.success ? (result.output || '') : (result.error || 'Failed to delete memory');
-  }
+    const payload = {
+      command,
+      args,
+      ...(input !== undefined && { input }),
+      userId: this.configService.getUserId()
+    };
 
-  // Logs operations
-  async getLogs(): Promise<string> {
-    const result = await this.executeCommand(':logs list');
-    return result.success ? (result.output || '') : (result.error || 'Failed to get logs');
-  }
-
-  async getLogsStats(): Promise<string> {
-    const result = await this.executeCommand(':logs stats');
-    return result.success ? (result.output || '') : (result.error || 'Failed to get logs stats');
-  }
+    let response: AxiosResponse<any>;
+    try {
+      response = await this.client.post(`${this.getApiUrl()}/api/echo-command`, payload, {
+        headers
+      });
+    } catch (error: unknown) {
+      throw toApiError(error, this.getApiUrl());
+    }
 
-  async getLogsToday(): Promise<string> {
-    const result = await this.executeCommand(':logs today');
-    return result.success ? (result.output || '') : (result.error || 'Failed to get today\'s logs');
+    const body = response.data;
+    if (!body || typeof body !== 'object') {
+      throw new InvalidResponseError(`${command}: expected a JSON object from the backend`);
+    }
+    if (body.success === false) {
+      throw new ApiError(body.error || body.message || `${command} failed`, response.status);
+    }
+    return {
+      output: typeof body.output === 'string' ? body.output : '',
+      data: body.data
+    };
   }
 
   // Test connection
@@ -225,3 +202,25 @@ export class ApiService {
     }
   }
 }
+
+/**
+ * Map an axios failure to the matching ApiError subclass
+ */
+function toApiError(error: unknown, apiUrl: string): ApiError {
+  if (!axios.isAxiosError(error)) {
+    return new ApiError(error instanceof Error ? error.message : String(error));
+  }
+  if (!error.response) {
+    return new NetworkError(`Could not reach ${apiUrl}: ${error.message}`);
+  }
+
+  const { status, data } = error.response;
+  const message = (data && (data.error || data.message)) || `Request failed with status ${status}`;
+  if (status === 401 || status === 403) {
+    return new AuthError(`${message}. Run "e config setup" to sign in again.`, status);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, status);
+  }
+  return new ApiError(message, status);
+}
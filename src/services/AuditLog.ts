@@ -0,0 +1,186 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PolicyCommandType } from './CommandPolicyService';
+
+export interface AuditDecision {
+  outcome: string;
+  reason: string;
+}
+
+export interface SessionAuditRecord {
+  type: 'session';
+  event: 'start' | 'stop';
+  sessionId: string;
+  timestamp: string;
+  apiUrl: string;
+  version: string;
+  platform: string;
+  hostname: string;
+}
+
+export interface CommandAuditRecord {
+  type: 'command';
+  sessionId: string;
+  requestId: string;
+  commandType: PolicyCommandType;
+  command: string;
+  args: string[];
+  workspace: string | null;
+  cwd: string;
+  requester: string | null;
+  receivedAt: string;
+  startedAt: string | null;
+  endedAt: string;
+  durationMs: number;
+  status: string;
+  exitCode: number | null;
+  error: string | null;
+  outputBytes: number;
+  outputHash: string;
+  signature: AuditDecision | null;
+  policy: AuditDecision | null;
+  approval: AuditDecision | null;
+}
+
+/**
+ * One input, resize or close event sent to an open terminal session. Input is recorded by its
+ * size and hash only, since it can hold passwords typed at a prompt.
+ */
+export interface TerminalAuditRecord {
+  type: 'terminal';
+  sessionId: string;
+  requestId: string;
+  action: string;
+  requester: string | null;
+  timestamp: string;
+  inputBytes: number | null;
+  inputHash: string | null;
+  cols: number | null;
+  rows: number | null;
+  status: 'accepted' | 'rejected';
+  reason: string | null;
+  signature: AuditDecision | null;
+}
+
+export type AuditRecord = SessionAuditRecord | CommandAuditRecord | TerminalAuditRecord;
+
+export interface AuditSession {
+  sessionId: string;
+  startedAt: string;
+  filePath: string;
+}
+
+export interface AuditFilter {
+  since?: Date;
+  sessionId?: string;
+  failedOnly?: boolean;
+}
+
+/**
+ * SHA-256 of a command's output, so the log can prove what was returned without storing it
+ */
+export function hashOutput(output: string): string {
+  return `sha256:${createHash('sha256').update(output).digest('hex')}`;
+}
+
+/**
+ * Append-only record of everything the remote listener was asked to run,
+ * stored as one JSONL file per listener session under `~/.echo-cli/audit`.
+ */
+export class AuditLog {
+  private dirPath: string;
+  private filePath: string | null;
+
+  constructor(dirPath: string) {
+    this.dirPath = dirPath;
+    this.filePath = null;
+  }
+
+  getPath(): string {
+    return this.dirPath;
+  }
+
+  /**
+   * Path of the file the current session writes to
+   */
+  getSessionPath(): string | null {
+    return this.filePath;
+  }
+
+  /**
+   * Start a new log file for a listener session
+   */
+  open(sessionId: string, startedAt = new Date()): string {
+    fs.mkdirSync(this.dirPath, { recursive: true, mode: 0o700 });
+
+    // Timestamp first so files sort in the order the sessions started
+    const stamp = startedAt.toISOString().replace(/:/g, '-');
+    this.filePath = path.join(this.dirPath, `${stamp}_${sessionId}.jsonl`);
+    return this.filePath;
+  }
+
+  /**
+   * Append a record to the current session's file
+   */
+  append(record: AuditRecord): void {
+    if (!this.filePath) {
+      throw new Error('Audit log is not open');
+    }
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n', { mode: 0o600 });
+  }
+
+  listSessions(): AuditSession[] {
+    if (!fs.existsSync(this.dirPath)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.dirPath)
+      .filter(file => file.endsWith('.jsonl'))
+      .sort()
+      .map(file => {
+        const separator = file.indexOf('_');
+        const stamp = file.slice(0, separator);
+        return {
+          sessionId: file.slice(separator + 1, -'.jsonl'.length),
+          // Restore the colons in the time part of the timestamp
+          startedAt: stamp.replace(/T(\d{2})-(\d{2})-(\d{2})/, 'T$1:$2:$3'),
+          filePath: path.join(this.dirPath, file)
+        };
+      });
+  }
+
+  /**
+   * Command records across all sessions, oldest first
+   */
+  readCommands(filter: AuditFilter = {}): CommandAuditRecord[] {
+    const sessions = this.listSessions().filter(session =>
+      !filter.sessionId || session.sessionId.startsWith(filter.sessionId)
+    );
+
+    const records: CommandAuditRecord[] = [];
+    for (const session of sessions) {
+      for (const record of this.readFile(session.filePath)) {
+        if (record.type !== 'command') continue;
+        if (filter.since && new Date(record.endedAt) < filter.since) continue;
+        if (filter.failedOnly && record.status === 'success') continue;
+        records.push(record);
+      }
+    }
+
+    return records.sort((a, b) => a.endedAt.localeCompare(b.endedAt));
+  }
+
+  private readFile(filePath: string): AuditRecord[] {
+    const records: AuditRecord[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A partially written last line from a crash - skip it
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,194 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceService } from './WorkspaceService';
+
+export interface ToolCapability {
+  available: boolean;
+  version: string | null;
+  path: string | null;
+}
+
+export interface ShellCapability {
+  name: string;
+  path: string;
+}
+
+export interface DiskCapability {
+  path: string;
+  freeBytes: number;
+  totalBytes: number;
+}
+
+export type ToolName = 'git' | 'node' | 'npm' | 'docker';
+
+/**
+ * What a listener can run, advertised to the dashboard so it can route commands
+ */
+export interface CapabilityDocument {
+  schemaVersion: 1;
+  detectedAt: string;
+  features: string[];
+  platform: {
+    os: string;
+    arch: string;
+    release: string;
+    hostname: string;
+  };
+  tools: Record<ToolName, ToolCapability>;
+  shells: {
+    default: string | null;
+    available: ShellCapability[];
+  };
+  workspaces: Array<{ name: string; path: string }>;
+  disk: DiskCapability[];
+}
+
+export interface CapabilityDetectorOptions {
+  features: string[];
+  workspaces?: WorkspaceService | null;
+  probeTimeoutMs?: number;
+}
+
+const TOOLS: ToolName[] = ['git', 'node', 'npm', 'docker'];
+
+const SHELLS = process.platform === 'win32'
+  ? ['cmd', 'powershell', 'pwsh', 'bash']
+  : ['sh', 'bash', 'zsh', 'fish', 'dash', 'ksh', 'pwsh'];
+
+const DEFAULT_PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Flat capability list: listener features plus every tool that was found
+ */
+export function summarizeCapabilities(document: CapabilityDocument): string[] {
+  const tools = TOOLS.filter(tool => document.tools[tool].available);
+  return [...document.features, ...tools];
+}
+
+/**
+ * Find an executable on PATH, honouring PATHEXT on Windows
+ */
+export function findExecutable(name: string, env: NodeJS.ProcessEnv = process.env): string | null {
+  const extensions = process.platform === 'win32'
+    ? (env.PATHEXT || '.COM;.EXE;.BAT;.CMD').split(';')
+    : [''];
+
+  for (const dir of (env.PATH || '').split(path.delimiter)) {
+    if (!dir) continue;
+    for (const extension of extensions) {
+      const candidate = path.join(dir, name + extension);
+      try {
+        fs.accessSync(candidate, fs.constants.X_OK);
+        if (fs.statSync(candidate).isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not here - keep looking
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Probes the machine for the tools, shells and disk space commands can rely on
+ */
+export class CapabilityDetector {
+  private features: string[];
+  private workspaces: WorkspaceService | null;
+  private probeTimeoutMs: number;
+
+  constructor(options: CapabilityDetectorOptions) {
+    this.features = options.features;
+    this.workspaces = options.workspaces || null;
+    this.probeTimeoutMs = options.probeTimeoutMs || DEFAULT_PROBE_TIMEOUT_MS;
+  }
+
+  async detect(): Promise<CapabilityDocument> {
+    const workspaces = this.workspaces ? this.workspaces.describe() : [];
+
+    const probes = await Promise.all(TOOLS.map(tool => this.probeTool(tool)));
+    const tools = {} as Record<ToolName, ToolCapability>;
+    TOOLS.forEach((tool, index) => {
+      tools[tool] = probes[index];
+    });
+
+    return {
+      schemaVersion: 1,
+      detectedAt: new Date().toISOString(),
+      features: [...this.features],
+      platform: {
+        os: os.platform(),
+        arch: os.arch(),
+        release: os.release(),
+        hostname: os.hostname()
+      },
+      tools,
+      shells: {
+        default: (process.platform === 'win32' ? process.env.ComSpec : process.env.SHELL) || null,
+        available: SHELLS
+          .map(name => ({ name, path: findExecutable(name) }))
+          .filter((shell): shell is ShellCapability => shell.path !== null)
+      },
+      workspaces,
+      disk: await this.probeDisk([process.cwd(), ...workspaces.map(workspace => workspace.path)])
+    };
+  }
+
+  /**
+   * Locate a tool and ask it for its version
+   */
+  private async probeTool(name: ToolName): Promise<ToolCapability> {
+    const executable = findExecutable(name);
+    if (!executable) {
+      return { available: false, version: null, path: null };
+    }
+
+    const output = await new Promise<string | null>(resolve => {
+      execFile(executable, ['--version'], {
+        timeout: this.probeTimeoutMs,
+        windowsHide: true,
+        // npm is a .cmd script on Windows, which can't be run without a shell
+        shell: process.platform === 'win32' && /\.(cmd|bat)$/i.test(executable)
+      }, (error, stdout) => {
+        resolve(error ? null : stdout);
+      });
+    });
+
+    const version = output?.match(/\d+\.\d+(\.\d+)?/);
+    return {
+      // A binary that can't report its version is present but unusable
+      available: output !== null,
+      version: version ? version[0] : null,
+      path: executable
+    };
+  }
+
+  /**
+   * Free and total space for each directory; skipped where the runtime can't tell
+   */
+  private async probeDisk(dirs: string[]): Promise<DiskCapability[]> {
+    // fs.statfs arrived in Node 18.15
+    const statfs = (fs.promises as Partial<typeof fs.promises>).statfs;
+    if (!statfs) {
+      return [];
+    }
+
+    const disk: DiskCapability[] = [];
+    for (const dir of [...new Set(dirs)]) {
+      try {
+        const stats = await statfs(dir);
+        disk.push({
+          path: dir,
+          freeBytes: stats.bavail * stats.bsize,
+          totalBytes: stats.blocks * stats.bsize
+        });
+      } catch {
+        // Missing workspace directory - nothing to report
+      }
+    }
+    return disk;
+  }
+}
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandApprovalService, matchesCommandPattern } from './CommandApprovalService';
+import { buildEchoChainSubjects, buildSystemChainSubjects } from './CommandPolicyService';
+
+describe('matchesCommandPattern', () => {
+  it('matches word by word', () => {
+    expect(matchesCommandPattern('npm run *', ['npm', 'run', 'test', '--watch'])).toBe(true);
+    expect(matchesCommandPattern('git status*', ['git', 'status;', 'rm'])).toBe(false);
+    expect(matchesCommandPattern('git log -*', ['git', 'log', '-5'])).toBe(true);
+    expect(matchesCommandPattern('git log', ['git', 'log', '-5'])).toBe(false);
+  });
+});
+
+describe('CommandApprovalService.findPatterns', () => {
+  let dir: string;
+  let approvals: CommandApprovalService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'echo-approvals-'));
+    approvals = new CommandApprovalService(path.join(dir, 'approvals.json'), { includeEcho: true });
+    const workingDirectory = path.join(dir, '**');
+    approvals.addPattern({ type: 'echo-cli', pattern: 'git status *', workingDirectory, addedAt: '' });
+    approvals.addPattern({ type: 'system', pattern: 'echo *', workingDirectory, addedAt: '' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('allows a request whose every step matches', () => {
+    expect(approvals.findPatterns(buildEchoChainSubjects(':git status --short', dir))).toHaveLength(1);
+    expect(approvals.findPatterns(buildSystemChainSubjects('echo a && echo b', [], dir))).toHaveLength(2);
+  });
+
+  it('prompts when one step of a chain is not covered', () => {
+    expect(approvals.findPatterns(buildEchoChainSubjects(':git status && task delete x', dir))).toBeNull();
+    expect(approvals.findPatterns(buildSystemChainSubjects('echo a; rm -rf x', [], dir))).toBeNull();
+  });
+
+  it('checks what an alias expands to, not its name', () => {
+    const aliases = { st: 'git status', wipe: 'git status && task delete x' };
+    approvals.addPattern({ type: 'echo-cli', pattern: 'wipe', workingDirectory: path.join(dir, '**'), addedAt: '' });
+    expect(approvals.findPatterns(buildEchoChainSubjects(':st', dir, aliases))).not.toBeNull();
+    expect(approvals.findPatterns(buildEchoChainSubjects(':wipe', dir, aliases))).toBeNull();
+  });
+
+  it('never covers shell syntax', () => {
+    expect(approvals.findPatterns(buildSystemChainSubjects(`echo $'\\'';id;#'`, [], dir))).toBeNull();
+    expect(approvals.findPatterns(buildSystemChainSubjects('echo $(id)', [], dir))).toBeNull();
+  });
+});
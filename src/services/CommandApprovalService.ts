@@ -0,0 +1,337 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PolicyCommandType, PolicySubject } from './CommandPolicyService';
+import { matchesGlob } from '../utils/patterns';
+import { formatCommandLine as formatArgv, tokenizeCommandLine } from '../utils/tokenize';
+
+export interface ApprovalPattern {
+  type: PolicyCommandType;
+  pattern: string;
+  workingDirectory: string;
+  addedAt: string;
+}
+
+export type ApprovalOutcome = 'approved' | 'denied' | 'timeout';
+
+export interface ApprovalDecision {
+  outcome: ApprovalOutcome;
+  reason: string;
+  pattern?: ApprovalPattern;
+}
+
+export interface ApprovalOptions {
+  timeoutMs?: number;
+  includeEcho?: boolean;
+}
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes
+
+const TYPE_LABELS: Record<PolicyCommandType, string> = {
+  'echo-cli': 'Echo CLI',
+  system: 'System',
+  file: 'File transfer',
+  terminal: 'Interactive terminal'
+};
+
+/**
+ * Command line shown for a subject, e.g. "git push origin main": the shell command as sent
+ * when it uses shell syntax, otherwise its words quoted so they read back the same
+ */
+export function formatCommandLine(subject: PolicySubject): string {
+  return subject.shell ? subject.shell.commandLine : formatArgv([subject.executable, ...subject.args]);
+}
+
+/**
+ * The words a subject is matched against
+ */
+function subjectArgv(subject: PolicySubject): string[] {
+  return [subject.executable, ...subject.args];
+}
+
+/**
+ * Match a command's words against an always-allow pattern. The pattern is split into words the
+ * same way; `*` matches any text within one word, and a final `*` on its own matches any
+ * remaining arguments. Words never run together, so `git status*` can't match `git status; rm`.
+ */
+export function matchesCommandPattern(pattern: string, argv: string[]): boolean {
+  let words: string[];
+  try {
+    words = tokenizeCommandLine(pattern);
+  } catch {
+    return false;
+  }
+  if (words.length === 0) {
+    return false;
+  }
+
+  const anyRest = words.length > 1 && words[words.length - 1] === '*';
+  const fixed = anyRest ? words.slice(0, -1) : words;
+  if (anyRest ? argv.length < fixed.length : argv.length !== fixed.length) {
+    return false;
+  }
+  return fixed.every((word, index) => matchesWord(word, argv[index]));
+}
+
+/**
+ * Audit reason for a request allowed by remembered patterns
+ */
+export function describePatterns(patterns: ApprovalPattern[]): string {
+  const names = patterns.map(pattern => `"${pattern.pattern}"`).filter((name, index, all) => all.indexOf(name) === index);
+  return `always allowed by pattern${names.length > 1 ? 's' : ''} ${names.join(', ')}`;
+}
+
+function matchesWord(pattern: string, word: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[\\s\\S]*');
+  return new RegExp(`^${source}$`).test(word);
+}
+
+/**
+ * Asks the local user to approve remote commands before they run, and
+ * remembers "always allow" patterns for this machine.
+ */
+export class CommandApprovalService {
+  private filePath: string;
+  private timeoutMs: number;
+  private includeEcho: boolean;
+  private patterns: ApprovalPattern[];
+  private queue: Promise<unknown>;
+  private prompting: boolean;
+  private pendingLines: string[];
+
+  constructor(filePath: string, options: ApprovalOptions = {}) {
+    this.filePath = filePath;
+    this.timeoutMs = options.timeoutMs || DEFAULT_APPROVAL_TIMEOUT_MS;
+    this.includeEcho = !!options.includeEcho;
+    this.patterns = this.load();
+    this.queue = Promise.resolve();
+    this.prompting = false;
+    this.pendingLines = [];
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  getTimeoutMs(): number {
+    return this.timeoutMs;
+  }
+
+  /**
+   * Whether commands of this type need approval
+   */
+  appliesTo(type: PolicyCommandType): boolean {
+    return type !== 'echo-cli' || this.includeEcho;
+  }
+
+  /**
+   * Whether a prompt is currently waiting for an answer
+   */
+  isPrompting(): boolean {
+    return this.prompting;
+  }
+
+  listPatterns(): ApprovalPattern[] {
+    return [...this.patterns];
+  }
+
+  addPattern(pattern: ApprovalPattern): void {
+    this.patterns.push(pattern);
+    this.save();
+  }
+
+  /**
+   * Remove a pattern by its 1-based position in the list
+   */
+  removePattern(position: number): ApprovalPattern | null {
+    if (position < 1 || position > this.patterns.length) {
+      return null;
+    }
+
+    const [removed] = this.patterns.splice(position - 1, 1);
+    this.save();
+    return removed;
+  }
+
+  /**
+   * The remembered pattern that allows this command, if any
+   */
+  findPattern(subject: PolicySubject): ApprovalPattern | null {
+    // The shell may run more than the words say, so shell syntax always needs a fresh answer
+    if (subject.shell) {
+      return null;
+    }
+    const argv = subjectArgv(subject);
+    return this.patterns.find(pattern =>
+      pattern.type === subject.type &&
+      matchesCommandPattern(pattern.pattern, argv) &&
+      matchesGlob(subject.workingDirectory, pattern.workingDirectory)
+    ) || null;
+  }
+
+  /**
+   * The remembered patterns that allow every command a request runs (each part of a chain, or
+   * what an alias expands to), or null when any of them needs an answer
+   */
+  findPatterns(steps: PolicySubject[]): ApprovalPattern[] | null {
+    const patterns: ApprovalPattern[] = [];
+    for (const step of steps) {
+      const pattern = this.findPattern(step);
+      if (!pattern) {
+        return null;
+      }
+      patterns.push(pattern);
+    }
+    return patterns.length > 0 ? patterns : null;
+  }
+
+  /**
+   * Ask the user whether a command may run. `steps` are the commands it actually runs, when it
+   * chains several or is an alias. Prompts are shown one at a time; a command with no answer
+   * before the timeout is not run.
+   */
+  requestApproval(
+    subject: PolicySubject,
+    details: { id: string; requester?: string },
+    steps: PolicySubject[] = [subject]
+  ): Promise<ApprovalDecision> {
+    const decision = this.queue.then(() => this.prompt(subject, details, steps));
+    this.queue = decision.catch(() => undefined);
+    return decision;
+  }
+
+  private async prompt(subject: PolicySubject, details: { id: string; requester?: string }, steps: PolicySubject[]): Promise<ApprovalDecision> {
+    // A pattern may have been added while this command waited for an earlier prompt
+    const remembered = this.findPatterns(steps);
+    if (remembered) {
+      return { outcome: 'approved', reason: describePatterns(remembered), pattern: remembered[0] };
+    }
+
+    // Only a request that runs one plain command can be always allowed; the pattern covers that command
+    const patternSubject = steps.length === 1 && !steps[0].shell ? steps[0] : null;
+    const commandLine = patternSubject ? formatCommandLine(patternSubject) : '';
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    let waiter: ((line: string) => void) | null = null;
+
+    // Lines typed ahead (or piped in) are kept for the next question instead of being lost
+    rl.on('line', (line: string) => {
+      if (waiter) {
+        const resolve = waiter;
+        waiter = null;
+        resolve(line);
+      } else {
+        this.pendingLines.push(line);
+      }
+    });
+    // readline swallows Ctrl+C while it owns the terminal, so pass it on to the listener
+    rl.on('SIGINT', () => process.kill(process.pid, 'SIGINT'));
+
+    const ask = (query: string, prefill = ''): Promise<string> => {
+      const pending = this.pendingLines.shift();
+      if (pending !== undefined) {
+        console.log(`${query}${pending}`);
+        return Promise.resolve(pending);
+      }
+
+      return new Promise((resolve, reject) => {
+        if (controller.signal.aborted) {
+          reject(new Error('timeout'));
+          return;
+        }
+        waiter = resolve;
+        controller.signal.addEventListener('abort', () => reject(new Error('timeout')), { once: true });
+
+        rl.setPrompt(query);
+        rl.prompt();
+        // Pre-fill the answer so it can be edited into a pattern
+        if (prefill && rl.terminal) {
+          rl.write(prefill);
+        }
+      });
+    };
+
+    this.prompting = true;
+    console.log('\n' + '='.repeat(50));
+    console.log('🔐 APPROVAL REQUIRED');
+    console.log('='.repeat(50));
+    console.log(`🆔 Command ID: ${details.id}`);
+    if (details.requester) {
+      console.log(`👤 Requested by: ${details.requester}`);
+    }
+    console.log(`🔄 Type: ${TYPE_LABELS[subject.type]}`);
+    if (subject.shell) {
+      console.log(`💻 Shell Command: ${subject.shell.commandLine}`);
+      console.log(`⚠️  Uses shell syntax (${subject.shell.syntax}), so it can't be always allowed`);
+    } else {
+      console.log(`💻 Command: ${subject.executable}`);
+      console.log(`📝 Arguments: ${subject.args.length > 0 ? formatArgv(subject.args) : '(none)'}`);
+    }
+    if (steps.length > 1 || formatCommandLine(steps[0]) !== formatCommandLine(subject)) {
+      console.log('🔗 Runs:');
+      steps.forEach(step => console.log(`   ${formatCommandLine(step)}`));
+    }
+    console.log(`📁 Working Directory: ${subject.workingDirectory}`);
+    console.log(`⏱️  Times out in ${Math.round(this.timeoutMs / 1000)}s`);
+
+    try {
+      for (;;) {
+        const answer = (await ask('Run this command? [y]es / [n]o / [a]lways allow this pattern: ')).trim().toLowerCase();
+
+        if (answer === 'y' || answer === 'yes') {
+          return { outcome: 'approved', reason: 'approved locally' };
+        }
+        if (answer === 'n' || answer === 'no') {
+          return { outcome: 'denied', reason: 'denied locally' };
+        }
+        if ((answer === 'a' || answer === 'always') && !patternSubject) {
+          console.log('⚠️  Commands with shell syntax or several steps need an answer every time');
+          continue;
+        }
+        if ((answer === 'a' || answer === 'always') && patternSubject) {
+          console.log(`Use * as a wildcard within a word, and a final * for any further arguments. The pattern applies in ${patternSubject.workingDirectory} and below.`);
+          const patternText = (await ask('Pattern to always allow: ', commandLine)).trim();
+          if (!patternText || !matchesCommandPattern(patternText, subjectArgv(patternSubject))) {
+            console.log('⚠️  The pattern must match this command');
+            continue;
+          }
+
+          const pattern: ApprovalPattern = {
+            type: patternSubject.type,
+            pattern: patternText,
+            workingDirectory: path.join(patternSubject.workingDirectory, '**'),
+            addedAt: new Date().toISOString()
+          };
+          this.addPattern(pattern);
+          console.log(`✅ Always allowing "${patternText}" (saved to ${this.filePath})`);
+          return { outcome: 'approved', reason: `always allowed by new pattern "${patternText}"`, pattern };
+        }
+      }
+    } catch {
+      console.log(`\n⏰ No answer within ${Math.round(this.timeoutMs / 1000)}s - command not run`);
+      return { outcome: 'timeout', reason: `no approval within ${Math.round(this.timeoutMs / 1000)}s` };
+    } finally {
+      clearTimeout(timer);
+      rl.close();
+      this.prompting = false;
+    }
+  }
+
+  private load(): ApprovalPattern[] {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return Array.isArray(data.patterns) ? data.patterns : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify({ patterns: this.patterns }, null, 2));
+  }
+}
@@ -0,0 +1,125 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandPolicy, CommandPolicyService, buildSystemChainSubjects } from './CommandPolicyService';
+
+function loadPolicy(policy: CommandPolicy): CommandPolicyService {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'echo-policy-'));
+  const policyPath = path.join(dir, 'policy.json');
+  fs.writeFileSync(policyPath, JSON.stringify(policy));
+  const service = new CommandPolicyService(policyPath);
+  service.load();
+  fs.rmSync(dir, { recursive: true, force: true });
+  return service;
+}
+
+describe('CommandPolicyService shell syntax', () => {
+  const echoOnly = loadPolicy({ defaultAction: 'deny', rules: [{ action: 'allow', type: 'system', executable: 'echo' }] });
+  const evaluate = (command: string, args: string[] = []) => echoOnly.evaluateAll(buildSystemChainSubjects(command, args, '/tmp'));
+
+  it('allows a plain command the rules allow', () => {
+    expect(evaluate('echo hello world').allowed).toBe(true);
+  });
+
+  it.each([
+    `echo $'\\'';id;#'`,
+    `echo $"x"`,
+    'echo $HOME',
+    'echo ${IFS}id',
+    'echo *',
+    'echo /etc/pass?d',
+    'echo [a-z]*',
+    'echo {a,b}',
+    'echo ~',
+    'echo hi #comment',
+    'echo "$(id)"',
+    'echo `id`'
+  ])('denies %j under an allow-list', command => {
+    const decision = evaluate(command);
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain('shell syntax');
+  });
+
+  it('keeps quoted and request arguments literal', () => {
+    expect(evaluate(`echo '$HOME' "*" 'a;b'`).allowed).toBe(true);
+    expect(evaluate('echo', [`$'\\'';id;#'`]).allowed).toBe(true);
+    expect(evaluate('echo {} x~').allowed).toBe(true);
+  });
+});
+
+describe('CommandPolicyService executables given as paths', () => {
+  const policy = loadPolicy({
+    defaultAction: 'allow',
+    rules: [
+      { action: 'deny', executable: 'rm' },
+      { action: 'allow', executable: 'sh' },
+      { action: 'deny', type: 'system' }
+    ]
+  });
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'echo-policy-bin-'));
+    fs.writeFileSync(path.join(dir, 'sh'), '#!/bin/sh\n', { mode: 0o755 });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const evaluate = (command: string) => policy.evaluateAll(buildSystemChainSubjects(command, [], dir));
+
+  it('allows the program PATH finds under an allowed name', () => {
+    const sh = execFileSync('/bin/sh', ['-c', 'command -v sh'], { encoding: 'utf8' }).trim();
+    expect(evaluate(`${sh} -c true`).allowed).toBe(true);
+  });
+
+  it('does not let another binary with an allowed name through', () => {
+    expect(evaluate('./sh -c true').allowed).toBe(false);
+    expect(evaluate(`${path.join(dir, 'sh')} -c true`).allowed).toBe(false);
+  });
+
+  it('denies a denied name wherever it lives', () => {
+    expect(evaluate('/tmp/elsewhere/rm -rf x').reason).toContain('#1');
+  });
+});
+
+describe('CommandPolicyService.evaluateAll', () => {
+  const policy = loadPolicy({
+    defaultAction: 'deny',
+    rules: [
+      { action: 'allow', executable: ['git', 'echo'] },
+      { action: 'deny', executable: 'curl', description: 'no network' }
+    ]
+  });
+  const evaluate = (command: string, args: string[] = []) => policy.evaluateAll(buildSystemChainSubjects(command, args, '/tmp'));
+
+  it('allows a chain when every command is allowed', () => {
+    const decision = evaluate('git status && echo done');
+    expect(decision.allowed).toBe(true);
+    expect(decision.ruleIndex).toBe(0);
+  });
+
+  it('denies a chain when any command is denied, naming that command', () => {
+    const decision = evaluate('git status; curl example.com | echo');
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toBe('"curl": denied by policy rule "no network"');
+  });
+
+  it('applies the default to commands no rule matches', () => {
+    expect(evaluate('echo a || rm -rf x').reason).toBe('"rm": denied by policy default (no rule matched)');
+  });
+
+  it('does not prefix the reason for a single command', () => {
+    expect(evaluate('curl example.com').reason).toBe('denied by policy rule "no network"');
+  });
+
+  it('checks request arguments against the last command only', () => {
+    expect(evaluate('git status; echo', ['$(id)']).allowed).toBe(true);
+  });
+
+  it('allows an empty list of commands', () => {
+    expect(policy.evaluateAll([])).toEqual({ allowed: true, reason: 'no policy configured' });
+  });
+});
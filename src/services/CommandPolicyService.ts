@@ -0,0 +1,331 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { expandHomeDir, matchesGlob } from '../utils/patterns';
+import { expandAliases } from '../utils/aliases';
+import { parseCommandChain } from '../utils/pipeline';
+import { buildCommandArgv, findShellExpansion, findShellOperator } from '../utils/tokenize';
+
+export type PolicyAction = 'allow' | 'deny';
+export type PolicyCommandType = 'echo-cli' | 'system' | 'file' | 'terminal';
+
+export interface PolicyRule {
+  action: PolicyAction;
+  description?: string;
+  type?: PolicyCommandType | PolicyCommandType[];
+  executable?: string | string[];
+  args?: string;
+  workingDirectory?: string | string[];
+}
+
+export interface CommandPolicy {
+  defaultAction: PolicyAction;
+  rules: PolicyRule[];
+}
+
+export interface PolicySubject {
+  type: PolicyCommandType;
+  executable: string;
+  args: string[];
+  workingDirectory: string;
+  // Set when a system command uses shell syntax the policy can't see into (`;`, `$(`, `$x`, globs, ...)
+  shell?: { syntax: string; commandLine: string };
+}
+
+// Words that make the first word of a command something other than the program that runs
+const SHELL_KEYWORDS = ['!', '{', '}', '[[', 'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac', 'function', 'select', 'time', 'coproc'];
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason: string;
+  rule?: PolicyRule;
+  ruleIndex?: number;
+}
+
+/**
+ * Split a remote command request into the parts policy rules are matched against. Words are
+ * split like the shell (and the sandbox) will split them, so quoting can't disguise a command.
+ */
+export function buildPolicySubject(
+  command: string,
+  args: string[] = [],
+  workingDirectory?: string
+): PolicySubject {
+  const type: PolicyCommandType = command.startsWith(':') ? 'echo-cli' : 'system';
+  const cleanCommand = type === 'echo-cli' ? command.slice(1) : command;
+
+  let argv: string[];
+  let syntax: string | null;
+  try {
+    argv = buildCommandArgv(cleanCommand, args);
+    syntax = findShellOperator(cleanCommand) || findShellExpansion(cleanCommand);
+  } catch (error: unknown) {
+    argv = [...cleanCommand.trim().split(/\s+/), ...args];
+    syntax = error instanceof Error ? error.message.toLowerCase() : 'unparsable command';
+  }
+  const [executable = '', ...commandArgs] = argv;
+
+  // Expansions and reserved words in the first word hide which program runs
+  if (!syntax && (/[$*?[\]{}()~=`]/.test(executable) || SHELL_KEYWORDS.includes(executable))) {
+    syntax = `"${executable}" as the command`;
+  }
+
+  return {
+    type,
+    executable,
+    args: commandArgs,
+    workingDirectory: path.resolve(expandHomeDir(workingDirectory || process.cwd())),
+    ...(type === 'system' && syntax && { shell: { syntax, commandLine: cleanCommand } })
+  };
+}
+
+/**
+ * Policy subjects for a system command, one for each command chained with `|`, `&&`, `||` or `;`,
+ * so every part of a chain is checked. The request's arguments follow the last command.
+ * A part with any other shell syntax keeps `shell` set, and is denied while a policy is active.
+ */
+export function buildSystemChainSubjects(command: string, args: string[] = [], workingDirectory?: string): PolicySubject[] {
+  let parts: string[];
+  try {
+    parts = parseCommandChain(command).flatMap(pipeline => pipeline.commands);
+  } catch {
+    return [buildPolicySubject(command, args, workingDirectory)];
+  }
+  if (parts.length <= 1) {
+    return [buildPolicySubject(command, args, workingDirectory)];
+  }
+  return parts.map((part, index) => buildPolicySubject(part, index === parts.length - 1 ? args : [], workingDirectory));
+}
+
+/**
+ * Policy subjects for an Echo command, one for each command chained with `|`, `&&`, `||` or `;`
+ * once aliases are expanded, so a rule that allows the first command (or the alias name)
+ * doesn't let the others through
+ */
+export function buildEchoChainSubjects(
+  command: string,
+  workingDirectory?: string,
+  aliases: Record<string, string> = {}
+): PolicySubject[] {
+  const cleanCommand = command.startsWith(':') ? command.slice(1) : command;
+  return parseCommandChain(expandAliases(cleanCommand, aliases))
+    .flatMap(pipeline => pipeline.commands)
+    .map(step => buildPolicySubject(`:${step.startsWith(':') ? step.slice(1) : step}`, [], workingDirectory));
+}
+
+/**
+ * Policy subject for a file operation: the operation is the executable, the target path its only
+ * argument, and the directory the file lives in (or the listed directory) its working directory
+ */
+export function buildFileSubject(operation: string, targetPath: string): PolicySubject {
+  return {
+    type: 'file',
+    executable: operation,
+    args: [targetPath],
+    workingDirectory: operation === 'file.list' ? targetPath : path.dirname(targetPath)
+  };
+}
+
+export class CommandPolicyService {
+  private policyPath: string;
+  private policy: CommandPolicy | null;
+
+  constructor(policyPath: string) {
+    this.policyPath = path.resolve(expandHomeDir(policyPath));
+    this.policy = null;
+  }
+
+  getPolicyPath(): string {
+    return this.policyPath;
+  }
+
+  /**
+   * Load the policy file from disk. Returns null when no policy file exists.
+   */
+  load(): CommandPolicy | null {
+    if (!fs.existsSync(this.policyPath)) {
+      this.policy = null;
+      return null;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(this.policyPath, 'utf8'));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid policy file ${this.policyPath}: ${errorMessage}`);
+    }
+
+    this.policy = this.validate(raw);
+    return this.policy;
+  }
+
+  isEnabled(): boolean {
+    return this.policy !== null;
+  }
+
+  getPolicy(): CommandPolicy | null {
+    return this.policy;
+  }
+
+  /**
+   * Evaluate a command against the policy. Rules are checked in order and the first match wins.
+   */
+  evaluate(subject: PolicySubject): PolicyDecision {
+    if (!this.policy) {
+      return { allowed: true, reason: 'no policy configured' };
+    }
+
+    // Rules match words, so a command the shell could turn into something else is never allowed
+    if (subject.type === 'system' && subject.shell) {
+      return {
+        allowed: false,
+        reason: `denied: shell syntax (${subject.shell.syntax}) can't be checked against the command policy`
+      };
+    }
+
+    for (let index = 0; index < this.policy.rules.length; index++) {
+      const rule = this.policy.rules[index];
+      if (this.matches(rule, subject)) {
+        const label = rule.description ? `"${rule.description}"` : `#${index + 1}`;
+        return {
+          allowed: rule.action === 'allow',
+          reason: `${rule.action === 'allow' ? 'allowed' : 'denied'} by policy rule ${label}`,
+          rule,
+          ruleIndex: index
+        };
+      }
+    }
+
+    return {
+      allowed: this.policy.defaultAction === 'allow',
+      reason: `${this.policy.defaultAction === 'allow' ? 'allowed' : 'denied'} by policy default (no rule matched)`
+    };
+  }
+
+  /**
+   * Evaluate several subjects that must all be allowed: the first denial, or the last decision
+   */
+  evaluateAll(subjects: PolicySubject[]): PolicyDecision {
+    let decision: PolicyDecision = { allowed: true, reason: 'no policy configured' };
+    for (const subject of subjects) {
+      decision = this.evaluate(subject);
+      if (!decision.allowed) {
+        return subjects.length > 1 ? { ...decision, reason: `"${subject.executable}": ${decision.reason}` } : decision;
+      }
+    }
+    return decision;
+  }
+
+  private matches(rule: PolicyRule, subject: PolicySubject): boolean {
+    if (rule.type && !toArray(rule.type).includes(subject.type)) {
+      return false;
+    }
+
+    if (rule.executable) {
+      const patterns = toArray(rule.executable);
+      const matched = patterns.some(pattern => matchesGlob(subject.executable, pattern)) ||
+        (patterns.some(pattern => matchesGlob(path.basename(subject.executable), pattern)) && this.matchesByName(rule, subject));
+      if (!matched) return false;
+    }
+
+    if (rule.args !== undefined && !new RegExp(rule.args).test(subject.args.join(' '))) {
+      return false;
+    }
+
+    if (rule.workingDirectory) {
+      const matched = toArray(rule.workingDirectory).some(pattern =>
+        matchesGlob(subject.workingDirectory, pattern)
+      );
+      if (!matched) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether a rule for a bare name (`git`) also covers an executable given as a path. Deny rules
+   * always do. Allow rules only do when the path is the program PATH finds under that name, so
+   * `./git` or a binary dropped into a workspace doesn't pass as the allowed command.
+   */
+  private matchesByName(rule: PolicyRule, subject: PolicySubject): boolean {
+    if (!/[\\/]/.test(subject.executable)) {
+      return false;
+    }
+    if (rule.action === 'deny') {
+      return true;
+    }
+
+    const onPath = findOnPath(path.basename(subject.executable));
+    return onPath !== null && onPath === realPath(path.resolve(subject.workingDirectory, subject.executable));
+  }
+
+  private validate(raw: unknown): CommandPolicy {
+    const fail = (message: string): never => {
+      throw new Error(`Invalid policy file ${this.policyPath}: ${message}`);
+    };
+
+    if (!raw || typeof raw !== 'object') {
+      fail('expected a JSON object');
+    }
+
+    const data = raw as { defaultAction?: unknown; rules?: unknown };
+    const defaultAction = data.defaultAction ?? 'deny';
+    if (defaultAction !== 'allow' && defaultAction !== 'deny') {
+      fail('"defaultAction" must be "allow" or "deny"');
+    }
+
+    const rules = data.rules ?? [];
+    if (!Array.isArray(rules)) {
+      fail('"rules" must be an array');
+    }
+
+    (rules as PolicyRule[]).forEach((rule, index) => {
+      if (rule.action !== 'allow' && rule.action !== 'deny') {
+        fail(`rule #${index + 1} must have an "action" of "allow" or "deny"`);
+      }
+      if (rule.type && !toArray(rule.type).every(type => ['echo-cli', 'system', 'file', 'terminal'].includes(type))) {
+        fail(`rule #${index + 1} has an unknown "type"`);
+      }
+      if (rule.args !== undefined) {
+        try {
+          new RegExp(rule.args);
+        } catch {
+          fail(`rule #${index + 1} has an invalid "args" pattern`);
+        }
+      }
+    });
+
+    return { defaultAction: defaultAction as PolicyAction, rules: rules as PolicyRule[] };
+  }
+}
+
+/**
+ * The real path of the program the shell would run for a bare command name, or null
+ */
+function findOnPath(name: string): string | null {
+  for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+    if (!dir) continue;
+    const candidate = path.join(dir, name);
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      if (fs.statSync(candidate).isFile()) {
+        return realPath(candidate);
+      }
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null;
+}
+
+function realPath(filePath: string): string | null {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
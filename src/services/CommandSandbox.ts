@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { expandHomeDir } from '../utils/patterns';
+import { buildCommandArgv, findShellOperator } from '../utils/tokenize';
+
+export interface SandboxOptions {
+  roots: string[];
+  allowEnv?: string[];
+  cpuSeconds?: number;
+  memoryMb?: number;
+}
+
+export interface SandboxLimits {
+  cpuSeconds: number | null;
+  memoryMb: number | null;
+}
+
+export interface SandboxSpawnSpec {
+  file: string;
+  args: string[];
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Environment variables passed through to sandboxed commands; everything else is dropped
+ */
+export const DEFAULT_ALLOWED_ENV = process.platform === 'win32'
+  ? ['PATH', 'PATHEXT', 'SystemRoot', 'SystemDrive', 'WINDIR', 'ComSpec', 'TEMP', 'TMP', 'USERPROFILE', 'HOMEDRIVE', 'HOMEPATH', 'USERNAME', 'LANG']
+  : ['PATH', 'HOME', 'USER', 'LOGNAME', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TERM', 'TMPDIR', 'TZ'];
+
+/**
+ * Thrown when a command is refused by the sandbox before it runs
+ */
+export class SandboxViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxViolationError';
+  }
+}
+
+/**
+ * Runs system commands without a shell, with an allow-listed environment,
+ * inside configured workspace roots and under CPU and memory limits.
+ */
+export class CommandSandbox {
+  private roots: string[];
+  private allowEnv: string[];
+  private limits: SandboxLimits;
+
+  constructor(options: SandboxOptions) {
+    if (options.roots.length === 0) {
+      throw new Error('The sandbox needs at least one workspace root');
+    }
+
+    this.roots = options.roots.map(root => {
+      const resolved = path.resolve(expandHomeDir(root));
+      if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+        throw new Error(`Workspace root does not exist: ${resolved}`);
+      }
+      return fs.realpathSync(resolved);
+    });
+    this.allowEnv = [...new Set([...DEFAULT_ALLOWED_ENV, ...(options.allowEnv || [])])];
+    this.limits = {
+      cpuSeconds: options.cpuSeconds || null,
+      memoryMb: options.memoryMb || null
+    };
+  }
+
+  getRoots(): string[] {
+    return [...this.roots];
+  }
+
+  getAllowedEnv(): string[] {
+    return [...this.allowEnv];
+  }
+
+  getLimits(): SandboxLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Resolve a working directory and make sure it is inside a workspace root.
+   * Symlinks are resolved first so they can't be used to escape a root.
+   */
+  resolveWorkingDirectory(workingDirectory?: string): string {
+    if (!workingDirectory) {
+      return this.roots[0];
+    }
+
+    const resolved = path.resolve(this.roots[0], expandHomeDir(workingDirectory));
+    if (!fs.existsSync(resolved)) {
+      throw new SandboxViolationError(`Working directory does not exist: ${resolved}`);
+    }
+
+    const real = fs.realpathSync(resolved);
+    const inside = this.roots.some(root => {
+      const relative = path.relative(root, real);
+      return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    });
+    if (!inside) {
+      throw new SandboxViolationError(`Working directory ${real} is outside the workspace roots (${this.roots.join(', ')})`);
+    }
+    return real;
+  }
+
+  /**
+   * Copy only allow-listed variables from the listener's environment
+   */
+  buildEnvironment(extra: Record<string, string> = {}, base: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+    for (const name of this.allowEnv) {
+      if (base[name] !== undefined) {
+        env[name] = base[name];
+      }
+    }
+    return { ...env, ...extra };
+  }
+
+  /**
+   * Split a command into argv. Shell syntax is refused because no shell is involved.
+   */
+  buildArgv(command: string, args: string[] = []): string[] {
+    const operator = findShellOperator(command);
+    if (operator) {
+      throw new SandboxViolationError(`Shell syntax "${operator}" is not available in sandbox mode`);
+    }
+
+    let argv: string[];
+    try {
+      argv = buildCommandArgv(command, args);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SandboxViolationError(`Could not parse command: ${errorMessage}`);
+    }
+
+    if (argv.length === 0) {
+      throw new SandboxViolationError('Empty command');
+    }
+    return argv;
+  }
+
+  /**
+   * Everything needed to spawn a command in the sandbox
+   */
+  prepare(command: string, args: string[], workingDirectory?: string, extraEnv?: Record<string, string>): SandboxSpawnSpec {
+    const argv = this.buildArgv(command, args);
+    const cwd = this.resolveWorkingDirectory(workingDirectory);
+    const env = this.buildEnvironment(extraEnv);
+
+    const limitCommands = [
+      this.limits.cpuSeconds ? `ulimit -t ${this.limits.cpuSeconds}` : null,
+      this.limits.memoryMb ? `ulimit -d ${this.limits.memoryMb * 1024}` : null
+    ].filter(Boolean);
+
+    if (limitCommands.length === 0 || process.platform === 'win32') {
+      return { file: argv[0], args: argv.slice(1), cwd, env };
+    }
+
+    // Apply the limits in a tiny fixed script, then exec the command; argv is passed as
+    // positional parameters so it is never interpreted by the shell
+    return {
+      file: '/bin/sh',
+      args: ['-c', `${limitCommands.join(' && ')} && exec "$@"`, 'sandbox', ...argv],
+      cwd,
+      env
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { KeyObject, generateKeyPairSync, sign } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandSignatureService, SignedFields, canonicalize } from './CommandSignatureService';
+
+const API_URL = 'https://dashboard.example';
+const SESSION_ID = 'session-a';
+
+describe('CommandSignatureService.verify', () => {
+  let dir: string;
+  let privateKey: KeyObject;
+  let publicKeyPem: string;
+  let signatures: CommandSignatureService;
+  let nonce = 0;
+
+  const signRequest = (fields: Record<string, unknown> = {}): SignedFields => {
+    const request: Record<string, unknown> = {
+      id: 'cmd-1',
+      command: 'git status',
+      sessionId: SESSION_ID,
+      nonce: `nonce-${++nonce}`,
+      signedAt: new Date().toISOString(),
+      ...fields
+    };
+    request.signature = sign(null, Buffer.from(canonicalize(request)), privateKey).toString('base64');
+    return request;
+  };
+
+  const createService = () => {
+    const service = new CommandSignatureService(path.join(dir, 'trust.json'), path.join(dir, 'nonces.json'));
+    service.activate(API_URL);
+    return service;
+  };
+
+  beforeAll(() => {
+    const pair = generateKeyPairSync('ed25519');
+    privateKey = pair.privateKey;
+    publicKeyPem = pair.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'echo-signatures-'));
+    new CommandSignatureService(path.join(dir, 'trust.json'), path.join(dir, 'nonces.json')).pinKey(API_URL, publicKeyPem, 'explicit');
+    signatures = createService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('accepts a command signed by the pinned key for this session', () => {
+    expect(signatures.verify(signRequest(), SESSION_ID).valid).toBe(true);
+  });
+
+  it('rejects a command signed for another session', () => {
+    const verification = signatures.verify(signRequest({ sessionId: 'session-b' }), SESSION_ID);
+    expect(verification.valid).toBe(false);
+    expect(verification.reason).toContain('another session');
+  });
+
+  it('rejects a command without a session when one is expected', () => {
+    expect(signatures.verify(signRequest({ sessionId: undefined }), SESSION_ID).valid).toBe(false);
+  });
+
+  it('rejects unsigned and tampered commands', () => {
+    expect(signatures.verify({ id: 'cmd-1', command: 'ls' }, SESSION_ID).reason).toContain('unsigned');
+    const tampered = { ...signRequest(), command: 'rm -rf ~' };
+    expect(signatures.verify(tampered, SESSION_ID).reason).toContain('invalid signature');
+  });
+
+  it('rejects an expired command', () => {
+    const request = signRequest({ signedAt: new Date(Date.now() - 6 * 60 * 1000).toISOString() });
+    expect(signatures.verify(request, SESSION_ID).reason).toContain('expired');
+  });
+
+  it('tolerates small clock skew but rejects commands from the future', () => {
+    expect(signatures.verify(signRequest({ signedAt: new Date(Date.now() + 30 * 1000).toISOString() }), SESSION_ID).valid).toBe(true);
+    expect(signatures.verify(signRequest({ signedAt: new Date(Date.now() + 5 * 60 * 1000).toISOString() }), SESSION_ID).reason).toContain('future');
+  });
+
+  it('rejects a reused nonce, also after a restart', () => {
+    const request = signRequest();
+    expect(signatures.verify(request, SESSION_ID).valid).toBe(true);
+    expect(signatures.verify(request, SESSION_ID).reason).toContain('replayed');
+    expect(createService().verify(request, SESSION_ID).reason).toContain('replayed');
+  });
+
+  it('does not use up the nonce of a command meant for another session', () => {
+    const request = signRequest({ sessionId: 'session-b' });
+    expect(signatures.verify(request, SESSION_ID).valid).toBe(false);
+    expect(signatures.verify(request, 'session-b').valid).toBe(true);
+  });
+});
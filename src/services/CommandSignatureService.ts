@@ -0,0 +1,248 @@
+import axios from 'axios';
+import { createHash, createPublicKey, KeyObject, verify } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface PinnedKey {
+  publicKey: string;
+  fingerprint: string;
+  source: 'tofu' | 'explicit';
+  pinnedAt: string;
+}
+
+export interface SignedFields {
+  sessionId?: string;
+  signature?: string;
+  nonce?: string;
+  signedAt?: string;
+  [key: string]: unknown;
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  reason: string;
+}
+
+interface TrustFile {
+  keys: Record<string, PinnedKey>;
+}
+
+const DEFAULT_MAX_AGE_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Serialize a value as JSON with object keys sorted, so signer and verifier hash identical bytes
+ */
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SSH-style fingerprint of a public key: SHA256 over its DER encoding
+ */
+export function fingerprintKey(publicKey: string): string {
+  const der = createPublicKey(publicKey).export({ type: 'spki', format: 'der' });
+  return `SHA256:${createHash('sha256').update(der).digest('base64').replace(/=+$/, '')}`;
+}
+
+function normalizeUrl(apiUrl: string): string {
+  return apiUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Pins the dashboard's command-signing key per dashboard URL and verifies
+ * the signature, timestamp and nonce of every remote command.
+ */
+export class CommandSignatureService {
+  private trustPath: string;
+  private noncePath: string;
+  private maxAgeMs: number;
+  private key: KeyObject | null;
+  private pinned: PinnedKey | null;
+  private seenNonces: Record<string, number>;
+
+  constructor(trustPath: string, noncePath: string, maxAgeMs = DEFAULT_MAX_AGE_MS) {
+    this.trustPath = trustPath;
+    this.noncePath = noncePath;
+    this.maxAgeMs = maxAgeMs;
+    this.key = null;
+    this.pinned = null;
+    this.seenNonces = this.loadNonces();
+  }
+
+  getPinnedKeys(): Record<string, PinnedKey> {
+    return this.readTrust().keys;
+  }
+
+  getPinnedKey(apiUrl: string): PinnedKey | null {
+    return this.readTrust().keys[normalizeUrl(apiUrl)] || null;
+  }
+
+  /**
+   * Pin a public key for a dashboard, replacing any previously pinned key
+   */
+  pinKey(apiUrl: string, publicKey: string, source: PinnedKey['source']): PinnedKey {
+    const pinned: PinnedKey = {
+      publicKey,
+      fingerprint: fingerprintKey(publicKey),
+      source,
+      pinnedAt: new Date().toISOString()
+    };
+
+    const trust = this.readTrust();
+    trust.keys[normalizeUrl(apiUrl)] = pinned;
+    this.writeTrust(trust);
+    return pinned;
+  }
+
+  forgetKey(apiUrl: string): boolean {
+    const trust = this.readTrust();
+    if (!trust.keys[normalizeUrl(apiUrl)]) return false;
+
+    delete trust.keys[normalizeUrl(apiUrl)];
+    this.writeTrust(trust);
+    return true;
+  }
+
+  /**
+   * Fetch the dashboard's signing key for trust on first use
+   */
+  async fetchSigningKey(apiUrl: string, authToken: string): Promise<string> {
+    const response = await axios.get(`${normalizeUrl(apiUrl)}/api/remote-cli?action=signing-key`, {
+      headers: {
+        'Authorization': `Bearer ${authToken}`
+      }
+    });
+
+    if (!response.data.success || typeof response.data.publicKey !== 'string') {
+      throw new Error(response.data.error || 'Dashboard did not return a signing key');
+    }
+    return response.data.publicKey;
+  }
+
+  /**
+   * Use the key pinned for a dashboard to verify commands
+   */
+  activate(apiUrl: string): PinnedKey {
+    const pinned = this.getPinnedKey(apiUrl);
+    if (!pinned) {
+      throw new Error(`No signing key pinned for ${apiUrl}`);
+    }
+
+    this.key = createPublicKey(pinned.publicKey);
+    this.pinned = pinned;
+    return pinned;
+  }
+
+  getActiveKey(): PinnedKey | null {
+    return this.pinned;
+  }
+
+  /**
+   * Check that a command is signed by the pinned key, recent, not a replay, and - when
+   * `expectedSessionId` is given - signed for this listener session
+   */
+  verify(request: SignedFields, expectedSessionId?: string): SignatureVerification {
+    if (!this.key) {
+      return { valid: false, reason: 'no signing key pinned' };
+    }
+
+    const { signature, nonce, signedAt } = request;
+    if (!signature || !nonce || !signedAt) {
+      return { valid: false, reason: 'unsigned command (missing signature, nonce or signedAt)' };
+    }
+
+    const signedTime = new Date(signedAt).getTime();
+    if (Number.isNaN(signedTime)) {
+      return { valid: false, reason: `invalid signedAt timestamp "${signedAt}"` };
+    }
+
+    const age = Date.now() - signedTime;
+    if (age > this.maxAgeMs) {
+      return { valid: false, reason: `expired command (signed ${Math.round(age / 1000)}s ago, limit ${this.maxAgeMs / 1000}s)` };
+    }
+    if (age < -MAX_CLOCK_SKEW_MS) {
+      return { valid: false, reason: 'command signed in the future (check the system clock)' };
+    }
+
+    this.pruneNonces();
+    if (this.seenNonces[nonce]) {
+      return { valid: false, reason: `replayed command (nonce ${nonce} already used)` };
+    }
+
+    // The signature covers every field of the request except the signature itself
+    const signed: Record<string, unknown> = { ...request };
+    delete signed.signature;
+    const payload = Buffer.from(canonicalize(signed));
+    const algorithm = this.key.asymmetricKeyType === 'ed25519' || this.key.asymmetricKeyType === 'ed448'
+      ? null
+      : 'sha256';
+
+    let valid = false;
+    try {
+      valid = verify(algorithm, payload, this.key, Buffer.from(signature, 'base64'));
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      return { valid: false, reason: `invalid signature (expected key ${this.pinned?.fingerprint})` };
+    }
+
+    // Nonces are only remembered per machine, so a command signed for another listener is refused
+    if (expectedSessionId !== undefined && request.sessionId !== expectedSessionId) {
+      return { valid: false, reason: `signed for another session (${request.sessionId ? String(request.sessionId).slice(0, 8) : 'none'})` };
+    }
+
+    // Remember the nonce until the command would have expired anyway
+    this.seenNonces[nonce] = signedTime + this.maxAgeMs;
+    this.saveNonces();
+    return { valid: true, reason: `signed by ${this.pinned?.fingerprint}` };
+  }
+
+  private readTrust(): TrustFile {
+    try {
+      const trust = JSON.parse(fs.readFileSync(this.trustPath, 'utf8'));
+      return { keys: trust.keys || {} };
+    } catch {
+      return { keys: {} };
+    }
+  }
+
+  private writeTrust(trust: TrustFile): void {
+    fs.mkdirSync(path.dirname(this.trustPath), { recursive: true });
+    fs.writeFileSync(this.trustPath, JSON.stringify(trust, null, 2), { mode: 0o600 });
+  }
+
+  private loadNonces(): Record<string, number> {
+    try {
+      return JSON.parse(fs.readFileSync(this.noncePath, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private saveNonces(): void {
+    fs.mkdirSync(path.dirname(this.noncePath), { recursive: true });
+    fs.writeFileSync(this.noncePath, JSON.stringify(this.seenNonces));
+  }
+
+  private pruneNonces(): void {
+    const now = Date.now();
+    for (const nonce of Object.keys(this.seenNonces)) {
+      if (this.seenNonces[nonce] < now) {
+        delete this.seenNonces[nonce];
+      }
+    }
+  }
+}
@@ -1,6 +1,30 @@
 import Conf from 'conf';
 import { homedir } from 'os';
-import { join } from 'path';
+import { dirname, join } from 'path';
+
+export interface RemoteWorkspace {
+  path: string;
+  env?: Record<string, string>;
+  policy?: string;
+  addedAt: string;
+}
+
+export interface RemoteSchedule {
+  cron: string;
+  command: string;
+  name?: string;
+  workingDirectory?: string;
+  workspace?: string;
+  timeout?: number;
+  paused: boolean;
+  addedAt: string;
+}
+
+export interface EchoAlias {
+  command: string;
+  description?: string;
+  addedAt: string;
+}
 
 export interface EchoConfig {
   apiUrl?: string;
@@ -8,6 +32,9 @@ export interface EchoConfig {
   authToken?: string;
   firebaseEmail?: string;
   firebasePassword?: string;
+  remoteWorkspaces?: Record<string, RemoteWorkspace>;
+  remoteSchedules?: Record<string, RemoteSchedule>;
+  aliases?: Record<string, EchoAlias>;
 }
 
 export class ConfigService {
@@ -73,6 +100,70 @@ export class ConfigService {
     return this.config.path;
   }
 
+  getConfigDir(): string {
+    return dirname(this.config.path);
+  }
+
+  // Named workspaces for remote commands
+  getRemoteWorkspaces(): Record<string, RemoteWorkspace> {
+    return this.config.get('remoteWorkspaces') || {};
+  }
+
+  setRemoteWorkspace(name: string, workspace: RemoteWorkspace): void {
+    this.config.set('remoteWorkspaces', { ...this.getRemoteWorkspaces(), [name]: workspace });
+  }
+
+  removeRemoteWorkspace(name: string): boolean {
+    const workspaces = this.getRemoteWorkspaces();
+    if (!workspaces[name]) {
+      return false;
+    }
+
+    delete workspaces[name];
+    this.config.set('remoteWorkspaces', workspaces);
+    return true;
+  }
+
+  // Scheduled jobs run by the remote listener
+  getRemoteSchedules(): Record<string, RemoteSchedule> {
+    return this.config.get('remoteSchedules') || {};
+  }
+
+  setRemoteSchedule(id: string, schedule: RemoteSchedule): void {
+    this.config.set('remoteSchedules', { ...this.getRemoteSchedules(), [id]: schedule });
+  }
+
+  removeRemoteSchedule(id: string): boolean {
+    const schedules = this.getRemoteSchedules();
+    if (!schedules[id]) {
+      return false;
+    }
+
+    delete schedules[id];
+    this.config.set('remoteSchedules', schedules);
+    return true;
+  }
+
+  // User-defined aliases and macros
+  getAliases(): Record<string, EchoAlias> {
+    return this.config.get('aliases') || {};
+  }
+
+  setAlias(name: string, alias: EchoAlias): void {
+    this.config.set('aliases', { ...this.getAliases(), [name]: alias });
+  }
+
+  removeAlias(name: string): boolean {
+    const aliases = this.getAliases();
+    if (!aliases[name]) {
+      return false;
+    }
+
+    delete aliases[name];
+    this.config.set('aliases', aliases);
+    return true;
+  }
+
   // Firebase credential management
   setFirebaseCredentials(email: string, password: string): void {
     this.config.set('firebaseEmail', email);
@@ -0,0 +1,83 @@
+import { InvalidResponseError } from './ApiErrors';
+import { decodeLogEntries, decodeLogStats, decodeMemories, decodeTask, decodeTasks } from './EchoModels';
+
+describe('decodeTasks', () => {
+  it('accepts a list or an object with a tasks list', () => {
+    const task = { id: 't1', title: 'Buy milk' };
+    expect(decodeTasks([task])).toEqual(decodeTasks({ tasks: [task] }));
+  });
+
+  it('fills in defaults and converts ids and dates', () => {
+    expect(decodeTask({ _id: 42, title: 'Ship it', dueDate: '2024-03-04T10:00:00Z', createdAt: 0 })).toEqual({
+      id: '42',
+      title: 'Ship it',
+      description: null,
+      status: 'open',
+      priority: null,
+      dueDate: new Date('2024-03-04T10:00:00Z'),
+      createdAt: new Date(0)
+    });
+  });
+
+  it.each([
+    [null, 'response: expected an object'],
+    [{ items: [] }, 'response.tasks: expected a list'],
+    [[{ title: 'x' }], 'tasks[0].id: expected a string or number'],
+    [[{ id: '', title: 'x' }], 'tasks[0].id: expected a string or number'],
+    [[{ id: 't1' }], 'tasks[0].title: expected a string'],
+    [[{ id: 't1', title: 'x', priority: 3 }], 'tasks[0].priority: expected a string'],
+    [[{ id: 't1', title: 'x', dueDate: 'soon' }], 'tasks[0].dueDate: expected a date'],
+    [['t1'], 'tasks[0]: expected an object']
+  ])('rejects %j', (data, message) => {
+    expect(() => decodeTasks(data)).toThrow(new InvalidResponseError(message));
+  });
+});
+
+describe('decodeMemories', () => {
+  it('defaults missing content and tags', () => {
+    expect(decodeMemories({ memories: [{ id: 'm1', title: 'Note', tags: null }] })).toEqual([
+      { id: 'm1', title: 'Note', content: '', tags: [], createdAt: null }
+    ]);
+  });
+
+  it('rejects tags that are not strings', () => {
+    expect(() => decodeMemories([{ id: 'm1', title: 'Note', tags: ['a', 1] }])).toThrow('memories[0].tags: expected a list of strings');
+  });
+});
+
+describe('decodeLogEntries', () => {
+  const entry = { id: 'l1', command: ':task list', timestamp: '2024-03-04T10:00:00Z' };
+
+  it('treats a missing success flag as success', () => {
+    expect(decodeLogEntries({ logs: [entry] })).toEqual([
+      { id: 'l1', command: ':task list', success: true, output: null, executionTime: null, timestamp: new Date('2024-03-04T10:00:00Z') }
+    ]);
+    expect(decodeLogEntries([{ ...entry, success: false }])[0].success).toBe(false);
+  });
+
+  it.each([
+    [{ ...entry, timestamp: undefined }, 'logs[0].timestamp: expected a date'],
+    [{ ...entry, success: 'yes' }, 'logs[0].success: expected true or false'],
+    [{ ...entry, executionTime: Infinity }, 'logs[0].executionTime: expected a number']
+  ])('rejects %j', (data, message) => {
+    expect(() => decodeLogEntries([data])).toThrow(message);
+  });
+});
+
+describe('decodeLogStats', () => {
+  it('decodes counts and top commands', () => {
+    expect(decodeLogStats({ totalCommands: 3, successfulCommands: 2, failedCommands: 1, topCommands: [{ command: ':time', count: 2 }] })).toEqual({
+      totalCommands: 3,
+      successfulCommands: 2,
+      failedCommands: 1,
+      averageExecutionTime: null,
+      topCommands: [{ command: ':time', count: 2 }]
+    });
+  });
+
+  it('names the field that is wrong', () => {
+    expect(() => decodeLogStats({ totalCommands: '3' })).toThrow('stats.totalCommands: expected a number');
+    expect(() => decodeLogStats({ totalCommands: 3, successfulCommands: 2, failedCommands: 1, topCommands: [{ command: ':time' }] }))
+      .toThrow('stats.topCommands[0].count: expected a number');
+  });
+});
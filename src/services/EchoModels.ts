@@ -0,0 +1,187 @@
+import { InvalidResponseError } from './ApiErrors';
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string | null;
+  dueDate: Date | null;
+  createdAt: Date | null;
+}
+
+export interface Memory {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  createdAt: Date | null;
+}
+
+export interface LogEntry {
+  id: string;
+  command: string;
+  success: boolean;
+  output: string | null;
+  executionTime: number | null;
+  timestamp: Date;
+}
+
+export interface LogStats {
+  totalCommands: number;
+  successfulCommands: number;
+  failedCommands: number;
+  averageExecutionTime: number | null;
+  topCommands: Array<{ command: string; count: number }>;
+}
+
+type Payload = Record<string, unknown>;
+
+/**
+ * Decode the `data` of a task list: an array of tasks, or an object with a `tasks` array
+ */
+export function decodeTasks(data: unknown): Task[] {
+  return decodeList(data, 'tasks', decodeTask);
+}
+
+export function decodeTask(data: unknown, context = 'task'): Task {
+  const task = expectObject(data, context);
+  return {
+    id: readId(task, context),
+    title: readString(task, 'title', context),
+    description: optionalString(task, 'description', context),
+    status: optionalString(task, 'status', context) || 'open',
+    priority: optionalString(task, 'priority', context),
+    dueDate: optionalDate(task, 'dueDate', context),
+    createdAt: optionalDate(task, 'createdAt', context)
+  };
+}
+
+export function decodeMemories(data: unknown): Memory[] {
+  return decodeList(data, 'memories', decodeMemory);
+}
+
+export function decodeMemory(data: unknown, context = 'memory'): Memory {
+  const memory = expectObject(data, context);
+  const tags = memory.tags === undefined || memory.tags === null ? [] : memory.tags;
+  if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+    throw new InvalidResponseError(`${context}.tags: expected a list of strings`);
+  }
+
+  return {
+    id: readId(memory, context),
+    title: readString(memory, 'title', context),
+    content: optionalString(memory, 'content', context) || '',
+    tags,
+    createdAt: optionalDate(memory, 'createdAt', context)
+  };
+}
+
+export function decodeLogEntries(data: unknown): LogEntry[] {
+  return decodeList(data, 'logs', decodeLogEntry);
+}
+
+export function decodeLogEntry(data: unknown, context = 'log'): LogEntry {
+  const entry = expectObject(data, context);
+  const timestamp = optionalDate(entry, 'timestamp', context);
+  if (!timestamp) {
+    throw new InvalidResponseError(`${context}.timestamp: expected a date`);
+  }
+  if (entry.success !== undefined && typeof entry.success !== 'boolean') {
+    throw new InvalidResponseError(`${context}.success: expected true or false`);
+  }
+
+  return {
+    id: readId(entry, context),
+    command: readString(entry, 'command', context),
+    success: entry.success !== false,
+    output: optionalString(entry, 'output', context),
+    executionTime: optionalNumber(entry, 'executionTime', context),
+    timestamp
+  };
+}
+
+export function decodeLogStats(data: unknown, context = 'stats'): LogStats {
+  const stats = expectObject(data, context);
+  const topCommands = stats.topCommands === undefined || stats.topCommands === null ? [] : stats.topCommands;
+  if (!Array.isArray(topCommands)) {
+    throw new InvalidResponseError(`${context}.topCommands: expected a list`);
+  }
+
+  return {
+    totalCommands: readNumber(stats, 'totalCommands', context),
+    successfulCommands: readNumber(stats, 'successfulCommands', context),
+    failedCommands: readNumber(stats, 'failedCommands', context),
+    averageExecutionTime: optionalNumber(stats, 'averageExecutionTime', context),
+    topCommands: topCommands.map((item, index) => {
+      const itemContext = `${context}.topCommands[${index}]`;
+      const top = expectObject(item, itemContext);
+      return { command: readString(top, 'command', itemContext), count: readNumber(top, 'count', itemContext) };
+    })
+  };
+}
+
+function decodeList<T>(data: unknown, key: string, decodeItem: (item: unknown, context: string) => T): T[] {
+  const list = Array.isArray(data) ? data : expectObject(data, 'response')[key];
+  if (!Array.isArray(list)) {
+    throw new InvalidResponseError(`response.${key}: expected a list`);
+  }
+  return list.map((item, index) => decodeItem(item, `${key}[${index}]`));
+}
+
+function expectObject(value: unknown, context: string): Payload {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new InvalidResponseError(`${context}: expected an object`);
+  }
+  return value as Payload;
+}
+
+/**
+ * Ids are strings in the CLI; numeric ids and `_id` (as stored by the backend) are accepted
+ */
+function readId(payload: Payload, context: string): string {
+  const id = payload.id ?? payload._id;
+  if ((typeof id !== 'string' || !id) && typeof id !== 'number') {
+    throw new InvalidResponseError(`${context}.id: expected a string or number`);
+  }
+  return String(id);
+}
+
+function readString(payload: Payload, key: string, context: string): string {
+  const value = payload[key];
+  if (typeof value !== 'string') {
+    throw new InvalidResponseError(`${context}.${key}: expected a string`);
+  }
+  return value;
+}
+
+function optionalString(payload: Payload, key: string, context: string): string | null {
+  return payload[key] === undefined || payload[key] === null ? null : readString(payload, key, context);
+}
+
+function readNumber(payload: Payload, key: string, context: string): number {
+  const value = payload[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new InvalidResponseError(`${context}.${key}: expected a number`);
+  }
+  return value;
+}
+
+function optionalNumber(payload: Payload, key: string, context: string): number | null {
+  return payload[key] === undefined || payload[key] === null ? null : readNumber(payload, key, context);
+}
+
+/**
+ * Dates arrive as ISO strings or epoch milliseconds
+ */
+function optionalDate(payload: Payload, key: string, context: string): Date | null {
+  const value = payload[key];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new InvalidResponseError(`${context}.${key}: expected a date`);
+  }
+  return date;
+}
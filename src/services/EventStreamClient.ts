@@ -0,0 +1,153 @@
+import axios from 'axios';
+
+export interface EventStreamHandlers {
+  onEvent(event: string, data: string): void;
+  onDisconnect(error?: Error): void;
+}
+
+export interface EventStreamOptions {
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Minimal Server-Sent Events client built on axios response streams
+ */
+export class EventStreamClient {
+  private url: string;
+  private authToken: string;
+  private handlers: EventStreamHandlers;
+  private idleTimeoutMs: number;
+  private controller: AbortController | null;
+  private idleTimer: NodeJS.Timeout | null;
+  private buffer: string;
+  private lastEventId: string | null;
+  private connected: boolean;
+
+  constructor(url: string, authToken: string, handlers: EventStreamHandlers, options: EventStreamOptions = {}) {
+    this.url = url;
+    this.authToken = authToken;
+    this.handlers = handlers;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 90000;
+    this.controller = null;
+    this.idleTimer = null;
+    this.buffer = '';
+    this.lastEventId = null;
+    this.connected = false;
+  }
+
+  /**
+   * Open the event stream. Rejects if the endpoint is unavailable or does not speak SSE.
+   */
+  async connect(): Promise<void> {
+    this.close();
+    this.controller = new AbortController();
+    this.buffer = '';
+
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.authToken}`,
+      'Accept': 'text/event-stream',
+      'Cache-Control': 'no-cache'
+    };
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+
+    const response = await axios.get(this.url, {
+      headers,
+      responseType: 'stream',
+      timeout: 0,
+      signal: this.controller.signal
+    });
+
+    const contentType = String(response.headers['content-type'] || '');
+    if (!contentType.includes('text/event-stream')) {
+      response.data.destroy();
+      throw new Error(`Push endpoint returned ${contentType || 'no content type'} instead of an event stream`);
+    }
+
+    const stream = response.data as NodeJS.ReadableStream;
+    this.connected = true;
+    this.resetIdleTimer();
+
+    stream.setEncoding('utf8');
+    stream.on('data', (chunk: string) => {
+      this.resetIdleTimer();
+      this.parse(chunk);
+    });
+    stream.on('end', () => this.disconnect(new Error('Event stream closed by server')));
+    stream.on('error', (error: Error) => this.disconnect(error));
+  }
+
+  /**
+   * Close the event stream without notifying the disconnect handler
+   */
+  close(): void {
+    this.connected = false;
+    this.clearIdleTimer();
+    if (this.controller) {
+      this.controller.abort();
+      this.controller = null;
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private disconnect(error?: Error): void {
+    if (!this.connected) return;
+    this.close();
+    this.handlers.onDisconnect(error);
+  }
+
+  private parse(chunk: string): void {
+    this.buffer += chunk.replace(/\r\n?/g, '\n');
+
+    let boundary = this.buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = this.buffer.slice(0, boundary);
+      this.buffer = this.buffer.slice(boundary + 2);
+      this.dispatch(block);
+      boundary = this.buffer.indexOf('\n\n');
+    }
+  }
+
+  private dispatch(block: string): void {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) continue;
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'event') {
+        event = value;
+      } else if (field === 'data') {
+        data.push(value);
+      } else if (field === 'id') {
+        this.lastEventId = value;
+      }
+    }
+
+    if (data.length > 0) {
+      this.handlers.onEvent(event, data.join('\n'));
+    }
+  }
+
+  private resetIdleTimer(): void {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.disconnect(new Error(`No events received for ${this.idleTimeoutMs / 1000}s`));
+    }, this.idleTimeoutMs);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExecutionLedger } from './ExecutionLedger';
+
+describe('ExecutionLedger', () => {
+  let dir: string;
+  let ledgerPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'echo-ledger-'));
+    ledgerPath = path.join(dir, 'state', 'ledger.json');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('remembers claimed commands across restarts', () => {
+    const ledger = new ExecutionLedger(ledgerPath);
+    ledger.markClaimed('cmd-1', 'session-a');
+    ledger.markClaimed('cmd-2', 'session-a');
+    ledger.markCompleted('cmd-2', false);
+    ledger.markClaimed('cmd-3', 'session-a');
+    ledger.remove('cmd-3');
+
+    const reloaded = new ExecutionLedger(ledgerPath);
+    expect(reloaded.get('cmd-1')).toMatchObject({ state: 'claimed', sessionId: 'session-a' });
+    expect(reloaded.get('cmd-2')).toMatchObject({ state: 'completed', success: false });
+    expect(reloaded.has('cmd-3')).toBe(false);
+    expect(fs.existsSync(`${ledgerPath}.tmp`)).toBe(false);
+  });
+
+  it('drops entries older than a week when loading', () => {
+    const old = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+    fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+    fs.writeFileSync(ledgerPath, JSON.stringify({
+      entries: {
+        old: { state: 'reported', sessionId: 's', claimedAt: old },
+        recent: { state: 'reported', sessionId: 's', claimedAt: new Date().toISOString() }
+      }
+    }));
+
+    const ledger = new ExecutionLedger(ledgerPath);
+    expect(ledger.has('old')).toBe(false);
+    expect(ledger.has('recent')).toBe(true);
+  });
+
+  it('keeps a corrupt ledger aside and recovers the command ids it can read', () => {
+    const ledger = new ExecutionLedger(ledgerPath);
+    ledger.markClaimed('cmd-"quoted"', 'session-a');
+    ledger.markClaimed('cmd-2', 'session-a');
+    ledger.markReported('cmd-2');
+    // A write cut short in the middle of the last entry
+    const written = fs.readFileSync(ledgerPath, 'utf8');
+    fs.writeFileSync(ledgerPath, written.slice(0, written.indexOf('"cmd-2"') + 20));
+
+    const recovered = new ExecutionLedger(ledgerPath);
+    expect(recovered.get('cmd-"quoted"')).toMatchObject({ state: 'recovered', sessionId: 'unknown' });
+    expect(recovered.get('cmd-2')).toMatchObject({ state: 'recovered' });
+    expect(recovered.has('entries')).toBe(false);
+
+    const corrupt = fs.readdirSync(path.dirname(ledgerPath)).filter(name => name.startsWith('ledger.json.corrupt-'));
+    expect(corrupt).toHaveLength(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('2 command id(s) recovered'));
+
+    // The recovered ids are saved, so they stay blocked after the next restart
+    expect(new ExecutionLedger(ledgerPath).get('cmd-2')).toMatchObject({ state: 'recovered' });
+  });
+
+  it('recovers nothing from a ledger that is not JSON at all', () => {
+    fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+    fs.writeFileSync(ledgerPath, '\0\0\0');
+
+    const ledger = new ExecutionLedger(ledgerPath);
+    expect(ledger.has('anything')).toBe(false);
+    expect(JSON.parse(fs.readFileSync(ledgerPath, 'utf8'))).toEqual({ entries: {} });
+  });
+
+  it('keeps entries in memory only without a file', () => {
+    const ledger = new ExecutionLedger(null);
+    ledger.markClaimed('cmd-1', 'session-a');
+    expect(ledger.has('cmd-1')).toBe(true);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
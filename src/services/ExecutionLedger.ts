@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// `recovered` ids were found in a corrupt ledger; whether they ran is unknown
+export type LedgerState = 'claimed' | 'completed' | 'reported' | 'recovered';
+
+export interface LedgerEntry {
+  state: LedgerState;
+  sessionId: string;
+  claimedAt: string;
+  completedAt?: string;
+  success?: boolean;
+}
+
+interface LedgerFile {
+  entries: Record<string, LedgerEntry>;
+}
+
+const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_ENTRIES = 5000;
+
+/**
+ * Persistent record of remote command ids this machine has already started,
+ * so a redelivered command is never executed twice - even across restarts.
+ */
+export class ExecutionLedger {
+  private filePath: string | null;
+  private entries: Record<string, LedgerEntry>;
+
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+    this.entries = {};
+    this.load();
+  }
+
+  has(commandId: string): boolean {
+    return commandId in this.entries;
+  }
+
+  get(commandId: string): LedgerEntry | undefined {
+    return this.entries[commandId];
+  }
+
+  /**
+   * Record that a command is about to run. Written to disk before execution starts.
+   */
+  markClaimed(commandId: string, sessionId: string): void {
+    this.entries[commandId] = {
+      state: 'claimed',
+      sessionId,
+      claimedAt: new Date().toISOString()
+    };
+    this.save();
+  }
+
+  markCompleted(commandId: string, success: boolean): void {
+    const entry = this.entries[commandId];
+    if (!entry) return;
+
+    entry.state = 'completed';
+    entry.success = success;
+    entry.completedAt = new Date().toISOString();
+    this.save();
+  }
+
+  markReported(commandId: string): void {
+    const entry = this.entries[commandId];
+    if (!entry) return;
+
+    entry.state = 'reported';
+    this.save();
+  }
+
+  /**
+   * Forget a command that was never started (e.g. the backend refused the claim)
+   */
+  remove(commandId: string): void {
+    delete this.entries[commandId];
+    this.save();
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf8');
+    try {
+      const data: LedgerFile = JSON.parse(raw);
+      this.entries = data.entries || {};
+      this.prune();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.recover(raw, errorMessage);
+    }
+  }
+
+  /**
+   * Keep a corrupt ledger for inspection and fail closed: every command id that can still
+   * be read from it is treated as already started, so it is never run again.
+   */
+  private recover(raw: string, errorMessage: string): void {
+    const filePath = this.filePath as string;
+    const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+    fs.renameSync(filePath, corruptPath);
+
+    const claimedAt = new Date().toISOString();
+    this.entries = {};
+    for (const match of raw.matchAll(/"((?:[^"\\]|\\.)+)"\s*:\s*\{/g)) {
+      let commandId: string;
+      try {
+        commandId = JSON.parse(`"${match[1]}"`);
+      } catch {
+        continue;
+      }
+      if (commandId !== 'entries') {
+        this.entries[commandId] = { state: 'recovered', sessionId: 'unknown', claimedAt };
+      }
+    }
+
+    console.error(`❌ Failed to read execution ledger ${filePath}: ${errorMessage}`);
+    console.error(`   Moved it to ${corruptPath}; ${Object.keys(this.entries).length} command id(s) recovered from it will not be run again.`);
+    this.save();
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+
+    this.prune();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a half-written ledger
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ entries: this.entries }, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+    const ids = Object.keys(this.entries)
+      .filter(id => new Date(this.entries[id].claimedAt).getTime() >= cutoff)
+      .sort((a, b) => this.entries[a].claimedAt.localeCompare(this.entries[b].claimedAt));
+
+    const kept = ids.slice(-MAX_ENTRIES);
+    if (kept.length === Object.keys(this.entries).length) return;
+
+    const entries: Record<string, LedgerEntry> = {};
+    for (const id of kept) {
+      entries[id] = this.entries[id];
+    }
+    this.entries = entries;
+  }
+}
@@ -0,0 +1,257 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { backoffDelay } from '../utils/backoff';
+
+export type FileOperation = 'file.get' | 'file.put' | 'file.list';
+
+export const FILE_OPERATIONS: FileOperation[] = ['file.get', 'file.put', 'file.list'];
+
+export interface FileChunk {
+  index: number;
+  offset: number;
+  size: number;
+  checksum: string;
+  data: string;
+}
+
+/**
+ * What the dashboard announces for an upload; the chunks themselves are fetched one at a time
+ */
+export interface UploadManifest {
+  size: number;
+  checksum: string;
+  chunks: number;
+}
+
+export interface FileEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  modifiedAt: string;
+}
+
+export interface FileTransferResult {
+  operation: FileOperation;
+  path: string;
+  size: number | null;
+  checksum: string | null;
+  chunks: number | null;
+  entries: FileEntry[] | null;
+}
+
+export interface FileTransferOptions {
+  maxFileBytes?: number;
+  chunkBytes?: number;
+  maxListEntries?: number;
+}
+
+export const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024; // 10MB
+const DEFAULT_CHUNK_BYTES = 256 * 1024;
+const DEFAULT_MAX_LIST_ENTRIES = 1000;
+const CHUNK_ATTEMPTS = 3;
+
+/**
+ * SHA-256 checksum in the same `sha256:<hex>` form used by the audit log
+ */
+export function checksum(data: Buffer): string {
+  return `sha256:${createHash('sha256').update(data).digest('hex')}`;
+}
+
+/**
+ * Moves files between the dashboard and this machine in checksummed, base64-encoded chunks
+ * through the `/api/remote-cli/files` endpoint.
+ */
+export class FileTransferService {
+  private apiUrl: string;
+  private authToken: string;
+  private maxFileBytes: number;
+  private chunkBytes: number;
+  private maxListEntries: number;
+
+  constructor(apiUrl: string, authToken: string, options: FileTransferOptions = {}) {
+    this.apiUrl = apiUrl;
+    this.authToken = authToken;
+    this.maxFileBytes = options.maxFileBytes || DEFAULT_MAX_FILE_BYTES;
+    this.chunkBytes = options.chunkBytes || DEFAULT_CHUNK_BYTES;
+    this.maxListEntries = options.maxListEntries || DEFAULT_MAX_LIST_ENTRIES;
+  }
+
+  getMaxFileBytes(): number {
+    return this.maxFileBytes;
+  }
+
+  /**
+   * Entries of a directory, directories first
+   */
+  list(dirPath: string): FileTransferResult {
+    const entries = fs.readdirSync(dirPath, { withFileTypes: true })
+      .slice(0, this.maxListEntries)
+      .map(dirent => {
+        const fullPath = path.join(dirPath, dirent.name);
+        const stats = fs.lstatSync(fullPath);
+        const type: FileEntry['type'] = dirent.isSymbolicLink() ? 'symlink'
+          : dirent.isDirectory() ? 'directory'
+            : dirent.isFile() ? 'file' : 'other';
+        return { name: dirent.name, type, size: stats.size, modifiedAt: stats.mtime.toISOString() };
+      })
+      .sort((a, b) =>
+        Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name)
+      );
+
+    return { operation: 'file.list', path: dirPath, size: null, checksum: null, chunks: null, entries };
+  }
+
+  /**
+   * Send a file to the dashboard chunk by chunk
+   */
+  async download(commandId: string, filePath: string, isCancelled: () => boolean = () => false): Promise<FileTransferResult> {
+    const stats = fs.statSync(filePath);
+    if (!stats.isFile()) {
+      throw new Error(`Not a regular file: ${filePath}`);
+    }
+    if (stats.size > this.maxFileBytes) {
+      throw new Error(`File is ${stats.size} bytes, larger than the ${this.maxFileBytes} byte transfer limit`);
+    }
+
+    const data = fs.readFileSync(filePath);
+    const chunks = Math.max(1, Math.ceil(data.length / this.chunkBytes));
+    for (let index = 0; index < chunks; index++) {
+      if (isCancelled()) {
+        throw new Error('Transfer cancelled');
+      }
+
+      const offset = index * this.chunkBytes;
+      const slice = data.subarray(offset, offset + this.chunkBytes);
+      await this.sendChunk(commandId, chunks, {
+        index,
+        offset,
+        size: slice.length,
+        checksum: checksum(slice),
+        data: slice.toString('base64')
+      });
+    }
+
+    return { operation: 'file.get', path: filePath, size: data.length, checksum: checksum(data), chunks, entries: null };
+  }
+
+  /**
+   * Fetch a file from the dashboard chunk by chunk and write it once every checksum matches
+   */
+  async upload(
+    commandId: string,
+    filePath: string,
+    manifest: UploadManifest,
+    overwrite: boolean,
+    isCancelled: () => boolean = () => false
+  ): Promise<FileTransferResult> {
+    if (!(manifest.size >= 0) || !(manifest.chunks > 0) || !manifest.checksum) {
+      throw new Error('Upload is missing its size, checksum or chunk count');
+    }
+    if (manifest.size > this.maxFileBytes) {
+      throw new Error(`Upload is ${manifest.size} bytes, larger than the ${this.maxFileBytes} byte transfer limit`);
+    }
+    if (fs.existsSync(filePath) && !overwrite) {
+      throw new Error(`File already exists: ${filePath} (send overwrite to replace it)`);
+    }
+    if (!fs.existsSync(path.dirname(filePath))) {
+      throw new Error(`Directory does not exist: ${path.dirname(filePath)}`);
+    }
+
+    const parts: Buffer[] = [];
+    let received = 0;
+    for (let index = 0; index < manifest.chunks; index++) {
+      if (isCancelled()) {
+        throw new Error('Transfer cancelled');
+      }
+
+      const chunk = await this.fetchChunk(commandId, index);
+      const data = Buffer.from(chunk.data, 'base64');
+      if (checksum(data) !== chunk.checksum) {
+        throw new Error(`Checksum mismatch in chunk ${index}`);
+      }
+
+      received += data.length;
+      if (received > manifest.size) {
+        throw new Error(`Upload sent more than the announced ${manifest.size} bytes`);
+      }
+      parts.push(data);
+    }
+
+    const content = Buffer.concat(parts);
+    if (content.length !== manifest.size) {
+      throw new Error(`Upload is ${content.length} bytes, expected ${manifest.size}`);
+    }
+    const fileChecksum = checksum(content);
+    if (fileChecksum !== manifest.checksum) {
+      throw new Error('Checksum mismatch: the uploaded file does not match the dashboard\'s checksum');
+    }
+
+    // Write next to the target and rename, so a failed transfer never leaves a half-written file
+    const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${commandId}.part`);
+    try {
+      fs.writeFileSync(tempPath, content, { mode: 0o644 });
+      fs.renameSync(tempPath, filePath);
+    } catch (error: unknown) {
+      fs.rmSync(tempPath, { force: true });
+      throw error;
+    }
+
+    return { operation: 'file.put', path: filePath, size: content.length, checksum: fileChecksum, chunks: manifest.chunks, entries: null };
+  }
+
+  private async sendChunk(commandId: string, totalChunks: number, chunk: FileChunk): Promise<void> {
+    await this.withRetry(`send chunk ${chunk.index}`, async () => {
+      const response = await axios.put(
+        `${this.apiUrl}/api/remote-cli/files`,
+        { commandId, totalChunks, chunk },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.authToken}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+      if (!response.data.success) {
+        throw new Error(response.data.error || 'Backend rejected the chunk');
+      }
+    });
+  }
+
+  private async fetchChunk(commandId: string, index: number): Promise<FileChunk> {
+    return this.withRetry(`fetch chunk ${index}`, async () => {
+      const response = await axios.get(
+        `${this.apiUrl}/api/remote-cli/files?commandId=${encodeURIComponent(commandId)}&index=${index}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${this.authToken}`
+          }
+        }
+      );
+      if (!response.data.success || !response.data.chunk || typeof response.data.chunk.data !== 'string') {
+        throw new Error(response.data.error || 'Backend returned no chunk');
+      }
+      return response.data.chunk as FileChunk;
+    });
+  }
+
+  /**
+   * Retry a chunk request a few times before failing the whole transfer
+   */
+  private async withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error: unknown) {
+        const errorMessage = axios.isAxiosError(error)
+          ? error.response?.data?.error || error.message
+          : error instanceof Error ? error.message : String(error);
+        if (attempt >= CHUNK_ATTEMPTS) {
+          throw new Error(`Failed to ${label}: ${errorMessage}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt, 500, 5000)));
+      }
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+export type ControlAction = 'status' | 'stop';
+
+export interface ControlRequest {
+  action: ControlAction;
+}
+
+export interface ControlResponse {
+  success: boolean;
+  // Whatever the handler returned, as JSON; callers know the shape of the action they asked for
+  data?: unknown;
+  error?: string;
+}
+
+export interface ControlHandlers {
+  status(): unknown;
+  stop(): Promise<void>;
+}
+
+export interface DaemonState {
+  pid: number;
+  args: string[];
+  startedAt: string;
+}
+
+/**
+ * Manages the files that let any shell find and control a running remote listener:
+ * a pidfile, a log file and a local control socket under `~/.echo-cli/remote`.
+ */
+export class ListenerDaemon {
+  private dirPath: string;
+  private server: net.Server | null;
+
+  constructor(dirPath: string) {
+    this.dirPath = dirPath;
+    this.server = null;
+  }
+
+  getPidPath(): string {
+    return path.join(this.dirPath, 'listener.pid');
+  }
+
+  getLogPath(): string {
+    return path.join(this.dirPath, 'listener.log');
+  }
+
+  getStatePath(): string {
+    return path.join(this.dirPath, 'listener.json');
+  }
+
+  getSocketPath(): string {
+    if (process.platform === 'win32') {
+      return `\\\\.\\pipe\\echo-cli-remote-${os.userInfo().username}`;
+    }
+    return path.join(this.dirPath, 'listener.sock');
+  }
+
+  /**
+   * Pid of the running listener, or null if none is running
+   */
+  getRunningPid(): number | null {
+    try {
+      const pid = parseInt(fs.readFileSync(this.getPidPath(), 'utf8').trim(), 10);
+      return pid && this.isAlive(pid) ? pid : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Arguments the listener was last started with, used by `restart`
+   */
+  readState(): DaemonState | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.getStatePath(), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Start `e remote start <args>` as a detached background process writing to the log file
+   */
+  spawnDetached(args: string[]): number {
+    this.ensureDir();
+
+    const logFd = fs.openSync(this.getLogPath(), 'a');
+    const child = spawn(
+      process.execPath,
+      [...process.execArgv, process.argv[1], 'remote', 'start', ...args, '--daemon-child'],
+      {
+        detached: true,
+        stdio: ['ignore', logFd, logFd],
+        windowsHide: true,
+        env: { ...process.env, FORCE_COLOR: '0' }
+      }
+    );
+
+    child.unref();
+    fs.closeSync(logFd);
+
+    const state: DaemonState = { pid: child.pid || 0, args, startedAt: new Date().toISOString() };
+    fs.writeFileSync(this.getStatePath(), JSON.stringify(state, null, 2));
+    return state.pid;
+  }
+
+  /**
+   * Register the current process as the running listener and serve control requests
+   */
+  async startControlServer(handlers: ControlHandlers): Promise<void> {
+    this.ensureDir();
+    fs.writeFileSync(this.getPidPath(), String(process.pid));
+
+    const socketPath = this.getSocketPath();
+    if (process.platform !== 'win32') {
+      // A stale socket from a listener that crashed would block listen()
+      fs.rmSync(socketPath, { force: true });
+    }
+
+    this.server = net.createServer(socket => {
+      let buffer = '';
+      socket.setEncoding('utf8');
+      socket.on('data', async (chunk: string) => {
+        buffer += chunk;
+        const newline = buffer.indexOf('\n');
+        if (newline === -1) return;
+
+        const response = await this.handleRequest(buffer.slice(0, newline), handlers);
+        socket.end(JSON.stringify(response) + '\n');
+      });
+      socket.on('error', () => socket.destroy());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(socketPath, () => resolve());
+    });
+
+    process.once('exit', () => this.cleanup());
+  }
+
+  /**
+   * Stop serving control requests and remove the pidfile and socket
+   */
+  stopControlServer(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+    this.cleanup();
+  }
+
+  /**
+   * Send a request to the running listener over its control socket
+   */
+  async request(action: ControlAction, timeoutMs = 5000): Promise<ControlResponse> {
+    return new Promise<ControlResponse>((resolve, reject) => {
+      const socket = net.createConnection(this.getSocketPath());
+      let buffer = '';
+
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error('Timed out waiting for the listener to respond'));
+      }, timeoutMs);
+
+      socket.setEncoding('utf8');
+      socket.on('connect', () => socket.write(JSON.stringify({ action }) + '\n'));
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+      });
+      socket.on('end', () => {
+        clearTimeout(timer);
+        try {
+          resolve(JSON.parse(buffer));
+        } catch {
+          reject(new Error('Invalid response from listener'));
+        }
+      });
+      socket.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Whether a process with the given pid exists
+   */
+  isAlive(pid: number): boolean {
+    try {
+      // Signal 0 checks that the process exists without affecting it
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Wait until the given process has exited
+   */
+  async waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.isAlive(pid)) {
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    return true;
+  }
+
+  private async handleRequest(raw: string, handlers: ControlHandlers): Promise<ControlResponse> {
+    try {
+      const request: ControlRequest = JSON.parse(raw);
+
+      switch (request.action) {
+        case 'status':
+          return { success: true, data: handlers.status() };
+        case 'stop':
+          // Reply first, then shut down once the response has been flushed
+          setTimeout(() => handlers.stop(), 100);
+          return { success: true };
+        default:
+          return { success: false, error: `Unknown action: ${request.action}` };
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  private cleanup(): void {
+    try {
+      const pid = parseInt(fs.readFileSync(this.getPidPath(), 'utf8').trim(), 10);
+      if (pid === process.pid) {
+        fs.rmSync(this.getPidPath(), { force: true });
+        if (process.platform !== 'win32') {
+          fs.rmSync(this.getSocketPath(), { force: true });
+        }
+      }
+    } catch {
+      // Already cleaned up
+    }
+  }
+
+  private ensureDir(): void {
+    fs.mkdirSync(this.dirPath, { recursive: true, mode: 0o700 });
+  }
+}
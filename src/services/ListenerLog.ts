@@ -0,0 +1,96 @@
+export type LogFormat = 'pretty' | 'json';
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+export interface LogEntry {
+  time: Date;
+  level: LogLevel;
+  event: string;
+  message: string;
+  fields: Record<string, unknown>;
+}
+
+export interface ListenerLogOptions {
+  format?: LogFormat;
+  quiet?: boolean;
+}
+
+/**
+ * Strip colors and the leading emoji from a console message, for structured output
+ */
+export function plainMessage(message: string): string {
+  return message
+    // eslint-disable-next-line no-control-regex
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    .replace(/^[\s\p{Extended_Pictographic}\u{FE0F}\u{200D}]+/u, '')
+    .trim();
+}
+
+/**
+ * Output of the remote listener. Prints the usual console messages, one JSON event per line
+ * (`--log-format json`), or only warnings and errors (`--quiet`). While the full-screen view
+ * is open, entries are handed to it instead of printed.
+ */
+export class ListenerLog {
+  private format: LogFormat;
+  private quiet: boolean;
+  private sink: ((entry: LogEntry) => void) | null;
+
+  constructor(options: ListenerLogOptions = {}) {
+    this.format = options.format || 'pretty';
+    this.quiet = options.quiet ?? false;
+    this.sink = null;
+  }
+
+  /**
+   * Send entries somewhere other than the console, or back to it with null
+   */
+  setSink(sink: ((entry: LogEntry) => void) | null): void {
+    this.sink = sink;
+  }
+
+  /**
+   * Whether banners and periodic status blocks should be printed
+   */
+  isVerbose(): boolean {
+    return this.format === 'pretty' && !this.quiet && !this.sink;
+  }
+
+  info(event: string, message: string, fields: Record<string, unknown> = {}): void {
+    this.write('info', event, message, fields);
+  }
+
+  warn(event: string, message: string, fields: Record<string, unknown> = {}): void {
+    this.write('warn', event, message, fields);
+  }
+
+  error(event: string, message: string, fields: Record<string, unknown> = {}): void {
+    this.write('error', event, message, fields);
+  }
+
+  private write(level: LogLevel, event: string, message: string, fields: Record<string, unknown>): void {
+    const entry: LogEntry = { time: new Date(), level, event, message, fields };
+    if (this.sink) {
+      this.sink(entry);
+      return;
+    }
+    if (this.quiet && level === 'info') {
+      return;
+    }
+
+    if (this.format === 'json') {
+      process.stdout.write(JSON.stringify({
+        time: entry.time.toISOString(),
+        level,
+        event,
+        message: plainMessage(message),
+        ...fields
+      }) + '\n');
+    } else if (level === 'error') {
+      console.error(message);
+    } else {
+      console.log(message);
+    }
+  }
+}
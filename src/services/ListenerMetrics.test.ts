@@ -0,0 +1,51 @@
+import { ListenerGauges, ListenerMetrics } from './ListenerMetrics';
+
+const GAUGES: ListenerGauges = {
+  uptimeSeconds: 60,
+  lastHeartbeatAgeSeconds: null,
+  connectionState: 'connected',
+  queueDepth: 0,
+  inFlight: 0,
+  workersBusy: 0,
+  workers: 4,
+  terminals: 0
+};
+
+const samples = (metrics: ListenerMetrics, name: string) =>
+  metrics.render(GAUGES).split('\n').filter(line => line.startsWith(`${name}{`) || line.startsWith(`${name} `));
+
+describe('ListenerMetrics', () => {
+  it('counts and times commands that ran', () => {
+    const metrics = new ListenerMetrics();
+    metrics.recordCommand('system', 'success', 200);
+    metrics.recordCommand('system', 'failed', 2000);
+    metrics.recordCommand('file', 'cancelled', 50);
+
+    expect(samples(metrics, 'echo_remote_commands_executed_total')).toEqual([
+      'echo_remote_commands_executed_total{type="system"} 2',
+      'echo_remote_commands_executed_total{type="file"} 1'
+    ]);
+    expect(samples(metrics, 'echo_remote_commands_failed_total')).toEqual([
+      'echo_remote_commands_failed_total{type="system",status="failed"} 1',
+      'echo_remote_commands_failed_total{type="file",status="cancelled"} 1'
+    ]);
+    expect(samples(metrics, 'echo_remote_command_duration_seconds_count')).toEqual(['echo_remote_command_duration_seconds_count 3']);
+  });
+
+  it('counts refused commands apart, under their outcome', () => {
+    const metrics = new ListenerMetrics();
+    metrics.recordCommand('system', 'rejected', null);
+    metrics.recordCommand('system', 'denied', 15);
+    metrics.recordCommand('system', 'denied', 20);
+    metrics.recordCommand('echo-cli', 'approval-timeout', 30000);
+
+    expect(samples(metrics, 'echo_remote_commands_refused_total')).toEqual([
+      'echo_remote_commands_refused_total{type="system",outcome="rejected"} 1',
+      'echo_remote_commands_refused_total{type="system",outcome="denied"} 2',
+      'echo_remote_commands_refused_total{type="echo-cli",outcome="approval-timeout"} 1'
+    ]);
+    expect(samples(metrics, 'echo_remote_commands_executed_total')).toEqual([]);
+    expect(samples(metrics, 'echo_remote_commands_failed_total')).toEqual([]);
+    expect(samples(metrics, 'echo_remote_command_duration_seconds_count')).toEqual(['echo_remote_command_duration_seconds_count 0']);
+  });
+});
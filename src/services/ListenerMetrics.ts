@@ -0,0 +1,146 @@
+/**
+ * Point-in-time values read from the listener when metrics are rendered
+ */
+export interface ListenerGauges {
+  uptimeSeconds: number;
+  lastHeartbeatAgeSeconds: number | null;
+  connectionState: string;
+  queueDepth: number;
+  inFlight: number;
+  workersBusy: number;
+  workers: number;
+  terminals: number;
+}
+
+// Upper bounds of the execution time histogram, in seconds
+const DURATION_BUCKETS = [0.1, 0.5, 1, 5, 10, 30, 60, 300, 900];
+
+const CONNECTION_STATES = ['connected', 'degraded', 'reconnecting', 'failed'];
+
+// Result statuses of commands that were refused before they could run
+const REFUSED_STATUSES = ['rejected', 'denied', 'approval-timeout'];
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.keys(labels).map(name => `${name}="${escapeLabel(labels[name])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Counters and histograms for the remote listener, rendered in the Prometheus text format
+ */
+export class ListenerMetrics {
+  private executed: Map<string, number>;
+  private refused: Map<string, number>;
+  private failed: Map<string, number>;
+  private bucketCounts: number[];
+  private durationSum: number;
+  private durationCount: number;
+  private pollErrors: number;
+  private heartbeatErrors: number;
+
+  constructor() {
+    this.executed = new Map();
+    this.refused = new Map();
+    this.failed = new Map();
+    this.bucketCounts = DURATION_BUCKETS.map(() => 0);
+    this.durationSum = 0;
+    this.durationCount = 0;
+    this.pollErrors = 0;
+    this.heartbeatErrors = 0;
+  }
+
+  /**
+   * Count a finished command. Commands refused before they ran (a failed signature check, a
+   * policy or approval denial) are counted apart from executed ones and are not timed.
+   */
+  recordCommand(type: string, status: string, durationMs: number | null): void {
+    if (REFUSED_STATUSES.includes(status)) {
+      const key = `${type}\n${status}`;
+      this.refused.set(key, (this.refused.get(key) || 0) + 1);
+      return;
+    }
+
+    this.executed.set(type, (this.executed.get(type) || 0) + 1);
+    if (status !== 'success') {
+      const key = `${type}\n${status}`;
+      this.failed.set(key, (this.failed.get(key) || 0) + 1);
+    }
+
+    if (durationMs !== null) {
+      const seconds = durationMs / 1000;
+      DURATION_BUCKETS.forEach((bound, index) => {
+        if (seconds <= bound) {
+          this.bucketCounts[index]++;
+        }
+      });
+      this.durationSum += seconds;
+      this.durationCount++;
+    }
+  }
+
+  recordPollError(): void {
+    this.pollErrors++;
+  }
+
+  recordHeartbeatError(): void {
+    this.heartbeatErrors++;
+  }
+
+  render(gauges: ListenerGauges): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: Array<[Record<string, string>, number]>) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [labels, value] of samples) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+    };
+
+    metric('echo_remote_commands_executed_total', 'counter', 'Commands the listener ran to completion, by type',
+      Array.from(this.executed.entries()).map(([type, count]) => [{ type }, count]));
+
+    metric('echo_remote_commands_failed_total', 'counter', 'Executed commands that did not succeed, by type and result status',
+      Array.from(this.failed.entries()).map(([key, count]) => {
+        const [type, status] = key.split('\n');
+        return [{ type, status }, count];
+      }));
+
+    metric('echo_remote_commands_refused_total', 'counter', 'Commands refused before they ran, by type and outcome (rejected, denied or approval-timeout)',
+      Array.from(this.refused.entries()).map(([key, count]) => {
+        const [type, outcome] = key.split('\n');
+        return [{ type, outcome }, count];
+      }));
+
+    metric('echo_remote_command_duration_seconds', 'histogram', 'Time commands spent running', [
+      ...DURATION_BUCKETS.map((bound, index): [Record<string, string>, number] => [{ le: String(bound) }, this.bucketCounts[index]]),
+      [{ le: '+Inf' }, this.durationCount]
+    ]);
+    // Histogram totals share the metric family, so they are added without their own header
+    lines.push(`echo_remote_command_duration_seconds_sum ${this.durationSum}`);
+    lines.push(`echo_remote_command_duration_seconds_count ${this.durationCount}`);
+
+    metric('echo_remote_poll_errors_total', 'counter', 'Failed polls for pending commands', [[{}, this.pollErrors]]);
+    metric('echo_remote_heartbeat_errors_total', 'counter', 'Failed session heartbeats', [[{}, this.heartbeatErrors]]);
+
+    if (gauges.lastHeartbeatAgeSeconds !== null) {
+      metric('echo_remote_last_heartbeat_age_seconds', 'gauge', 'Seconds since the last successful heartbeat',
+        [[{}, gauges.lastHeartbeatAgeSeconds]]);
+    }
+    metric('echo_remote_queue_depth', 'gauge', 'Commands waiting for a free worker', [[{}, gauges.queueDepth]]);
+    metric('echo_remote_commands_in_flight', 'gauge', 'Commands queued, awaiting approval or running', [[{}, gauges.inFlight]]);
+    metric('echo_remote_workers_busy', 'gauge', 'Workers currently running a command', [[{}, gauges.workersBusy]]);
+    metric('echo_remote_workers', 'gauge', 'Size of the worker pool', [[{}, gauges.workers]]);
+    metric('echo_remote_terminal_sessions', 'gauge', 'Open interactive terminal sessions', [[{}, gauges.terminals]]);
+    metric('echo_remote_uptime_seconds', 'gauge', 'Seconds since the listener started', [[{}, gauges.uptimeSeconds]]);
+    metric('echo_remote_connection_state', 'gauge', 'Connection to the dashboard (1 for the current state)',
+      CONNECTION_STATES.map(state => [{ state }, state === gauges.connectionState ? 1 : 0]));
+
+    return lines.join('\n') + '\n';
+  }
+}
@@ -0,0 +1,189 @@
+import chalk from 'chalk';
+import { LogEntry, plainMessage } from './ListenerLog';
+
+export interface TuiCommand {
+  id: string;
+  command: string;
+  state: string;
+  elapsed: string;
+}
+
+export interface TuiHistoryEntry {
+  id: string;
+  command: string;
+  status: string;
+  executionTime: number | null;
+  finishedAt: Date;
+}
+
+/**
+ * What the full-screen view shows, read from the listener on every redraw
+ */
+export interface TuiSnapshot {
+  dashboardUrl: string;
+  sessionId: string;
+  version: string;
+  uptime: string;
+  connectionState: string;
+  connectionLabel: string;
+  lastError: string | null;
+  transportLabel: string;
+  lastHeartbeat: Date | null;
+  commandCount: number;
+  queueDepth: number;
+  workersBusy: number;
+  workers: number;
+  inFlight: TuiCommand[];
+  recentCommands: TuiHistoryEntry[];
+}
+
+const MAX_LOG_ENTRIES = 200;
+const REDRAW_INTERVAL_MS = 1000;
+
+const CONNECTION_COLORS: Record<string, (text: string) => string> = {
+  connected: chalk.green,
+  degraded: chalk.yellow,
+  reconnecting: chalk.yellow,
+  failed: chalk.red
+};
+
+const STATUS_COLORS: Record<string, (text: string) => string> = {
+  success: chalk.green,
+  cancelled: chalk.yellow,
+  timeout: chalk.yellow
+};
+
+/**
+ * Full-screen view of the listener (`e remote start --tui`): connection health, in-flight
+ * commands, recent history and the latest log messages, redrawn in place on the
+ * terminal's alternate screen.
+ */
+export class ListenerTui {
+  private snapshot: () => TuiSnapshot;
+  private output: NodeJS.WriteStream;
+  private entries: LogEntry[];
+  private timer: NodeJS.Timeout | null;
+  private onResize: () => void;
+
+  constructor(snapshot: () => TuiSnapshot, output: NodeJS.WriteStream = process.stdout) {
+    this.snapshot = snapshot;
+    this.output = output;
+    this.entries = [];
+    this.timer = null;
+    this.onResize = () => this.render();
+  }
+
+  start(): void {
+    // Alternate screen and hidden cursor, restored by stop()
+    this.output.write('\x1b[?1049h\x1b[?25l');
+    this.output.on('resize', this.onResize);
+    this.timer = setInterval(() => this.render(), REDRAW_INTERVAL_MS);
+    this.render();
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    this.output.off('resize', this.onResize);
+    this.output.write('\x1b[?25h\x1b[?1049l');
+  }
+
+  addLog(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_LOG_ENTRIES) {
+      this.entries.shift();
+    }
+    if (this.timer) {
+      this.render();
+    }
+  }
+
+  /**
+   * Log entries received while the view was open, so they can be printed after it closes
+   */
+  getLogEntries(): LogEntry[] {
+    return this.entries.slice();
+  }
+
+  private render(): void {
+    const columns = this.output.columns || 80;
+    const rows = this.output.rows || 24;
+    const info = this.snapshot();
+    const color = CONNECTION_COLORS[info.connectionState] || chalk.white;
+    const heartbeat = info.lastHeartbeat ? `${Math.round((Date.now() - info.lastHeartbeat.getTime()) / 1000)}s ago` : 'never';
+
+    const header = [
+      chalk.bold.cyan(' QIRVO ECHO CLI - REMOTE LISTENER ') + chalk.gray(`v${info.version}  ${new Date().toLocaleTimeString()}`),
+      ` ${chalk.gray('Dashboard ')} ${info.dashboardUrl}   ${chalk.gray('Session')} ${info.sessionId.slice(0, 8)}   ${chalk.gray('Uptime')} ${info.uptime}`,
+      ` ${chalk.gray('Connection')} ${color(plainMessage(info.connectionLabel))}   ${chalk.gray('Transport')} ${info.transportLabel}   ${chalk.gray('Heartbeat')} ${heartbeat}`
+    ];
+    if (info.lastError && info.connectionState !== 'connected') {
+      header.push(` ${chalk.gray('Last error')} ${chalk.red(info.lastError)}`);
+    }
+    header.push(` ${chalk.gray('Commands  ')} ${info.commandCount} run   ${info.inFlight.length} in flight   ${info.queueDepth} queued   ${info.workersBusy}/${info.workers} workers busy`);
+
+    const inFlight = info.inFlight.length > 0
+      ? info.inFlight.map(command => `  ${chalk.cyan(command.state.padEnd(10))} ${chalk.gray(command.elapsed.padStart(9))}  ${command.command}`)
+      : [chalk.gray('  Waiting for commands from the dashboard')];
+
+    const history = info.recentCommands.length > 0
+      ? info.recentCommands.slice(-8).reverse().map(entry => {
+        const statusColor = STATUS_COLORS[entry.status] || chalk.red;
+        const duration = entry.executionTime === null ? '-' : `${(entry.executionTime / 1000).toFixed(1)}s`;
+        return `  ${chalk.gray(entry.finishedAt.toLocaleTimeString())} ${statusColor(entry.status.padEnd(16))} ${chalk.gray(duration.padStart(7))}  ${entry.command}`;
+      })
+      : [chalk.gray('  No commands yet')];
+
+    const lines = [
+      ...header,
+      '',
+      chalk.bold(' IN FLIGHT'),
+      ...inFlight,
+      '',
+      chalk.bold(' RECENT'),
+      ...history,
+      '',
+      chalk.bold(' LOG')
+    ];
+
+    // The log takes whatever room is left above the footer
+    const logRoom = Math.max(rows - lines.length - 2, 0);
+    const logLines = (logRoom > 0 ? this.entries.slice(-logRoom) : []).map(entry => {
+      const levelColor = entry.level === 'error' ? chalk.red : entry.level === 'warn' ? chalk.yellow : chalk.white;
+      return `  ${chalk.gray(entry.time.toLocaleTimeString())} ${levelColor(plainMessage(entry.message))}`;
+    });
+    lines.push(...logLines);
+    while (lines.length < rows - 1) {
+      lines.push('');
+    }
+    lines.push(chalk.gray(' Ctrl+C to stop the listener'));
+
+    const screen = lines.slice(0, rows).map(line => fitLine(line, columns) + '\x1b[K').join('\n');
+    this.output.write('\x1b[H' + screen + '\x1b[J');
+  }
+}
+
+/**
+ * Cut a colored line to the terminal width without counting escape codes
+ */
+function fitLine(line: string, columns: number): string {
+  let visible = 0;
+  let result = '';
+  // eslint-disable-next-line no-control-regex
+  const parts = line.split(/(\x1b\[[0-9;]*m)/);
+  for (const part of parts) {
+    if (part.startsWith('\x1b[')) {
+      result += part;
+      continue;
+    }
+    for (const char of part) {
+      if (visible >= columns) {
+        return result + '\x1b[0m';
+      }
+      result += char;
+      visible++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,84 @@
+import * as http from 'http';
+
+export interface HealthReport {
+  healthy: boolean;
+  reason: string;
+}
+
+export interface MetricsHandlers {
+  health(): HealthReport;
+  status(): unknown;
+  metrics(): string;
+}
+
+/**
+ * Local HTTP endpoint for build servers and monitoring: `/healthz`, `/status` (JSON)
+ * and `/metrics` (Prometheus text format). Binds to localhost unless told otherwise.
+ */
+export class MetricsServer {
+  private handlers: MetricsHandlers;
+  private server: http.Server | null;
+
+  constructor(handlers: MetricsHandlers) {
+    this.handlers = handlers;
+    this.server = null;
+  }
+
+  async start(port: number, host = '127.0.0.1'): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address();
+    const boundPort = address && typeof address === 'object' ? address.port : port;
+    return `http://${host.includes(':') ? `[${host}]` : host}:${boundPort}`;
+  }
+
+  stop(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const pathname = (req.url || '/').split('?')[0];
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Allow': 'GET, HEAD', 'Content-Type': 'text/plain' });
+      res.end('Method not allowed\n');
+      return;
+    }
+
+    try {
+      switch (pathname) {
+        case '/healthz': {
+          const report = this.handlers.health();
+          this.sendJson(res, report.healthy ? 200 : 503, { status: report.healthy ? 'ok' : 'unhealthy', reason: report.reason });
+          return;
+        }
+        case '/status':
+          this.sendJson(res, 200, this.handlers.status());
+          return;
+        case '/metrics':
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(this.handlers.metrics());
+          return;
+        default:
+          res.writeHead(404, { 'Content-Type': 'text/plain' });
+          res.end('Not found. Try /healthz, /status or /metrics\n');
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.sendJson(res, 500, { error: errorMessage });
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, null, 2) + '\n');
+  }
+}
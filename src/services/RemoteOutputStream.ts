@@ -0,0 +1,235 @@
+import axios from 'axios';
+
+export type OutputStreamName = 'stdout' | 'stderr';
+
+export interface OutputFrame {
+  seq: number;
+  type: 'output' | 'truncated' | 'exit';
+  stream?: OutputStreamName;
+  data?: string;
+  limit?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  totalBytes?: number;
+  timestamp: string;
+}
+
+export interface CapturedOutput {
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+  limit: number;
+  totalBytes: number;
+  droppedBytes: Record<OutputStreamName, number>;
+}
+
+export interface OutputStreamOptions {
+  maxOutputBytes?: number;
+  flushIntervalMs?: number;
+  maxChunkBytes?: number;
+  forwardAll?: boolean;
+  onError?: (message: string) => void;
+}
+
+export const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024; // 1MB
+
+/**
+ * Streams command output to the dashboard in ordered, sequence-numbered frames
+ * through the `/api/remote-cli` reporting endpoint.
+ */
+export class RemoteOutputStream {
+  private apiUrl: string;
+  private authToken: string;
+  private commandId: string;
+  private maxOutputBytes: number;
+  private flushIntervalMs: number;
+  private maxChunkBytes: number;
+  private forwardAll: boolean;
+  private onError: (message: string) => void;
+  private seq: number;
+  private forwardedBytes: number;
+  private totalBytes: number;
+  private truncated: boolean;
+  private pending: { stream: OutputStreamName; data: string } | null;
+  private flushTimer: NodeJS.Timeout | null;
+  private sendQueue: Promise<void>;
+  private sendFailed: boolean;
+  private output: Record<OutputStreamName, string>;
+  private droppedBytes: Record<OutputStreamName, number>;
+
+  constructor(apiUrl: string, authToken: string, commandId: string, options: OutputStreamOptions = {}) {
+    this.apiUrl = apiUrl;
+    this.authToken = authToken;
+    this.commandId = commandId;
+    this.maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+    this.flushIntervalMs = options.flushIntervalMs ?? 500;
+    this.maxChunkBytes = options.maxChunkBytes ?? 16 * 1024;
+    this.forwardAll = options.forwardAll ?? false;
+    this.onError = options.onError || (message => console.error('❌ Failed to stream command output:', message));
+    this.seq = 0;
+    this.forwardedBytes = 0;
+    this.totalBytes = 0;
+    this.truncated = false;
+    this.pending = null;
+    this.flushTimer = null;
+    this.sendQueue = Promise.resolve();
+    this.sendFailed = false;
+    this.output = { stdout: '', stderr: '' };
+    this.droppedBytes = { stdout: 0, stderr: 0 };
+  }
+
+  /**
+   * Queue a piece of output for the dashboard
+   */
+  write(stream: OutputStreamName, data: string): void {
+    if (!data) return;
+
+    const size = Buffer.byteLength(data);
+    this.totalBytes += size;
+
+    // Interactive sessions keep streaming past the limit; only the copy kept here is capped
+    if (this.forwardAll) {
+      this.append(stream, data);
+      this.capture(stream, data, size);
+      return;
+    }
+
+    if (this.truncated) {
+      this.droppedBytes[stream] += size;
+      return;
+    }
+
+    let accepted = data;
+    if (this.forwardedBytes + size > this.maxOutputBytes) {
+      const remaining = this.maxOutputBytes - this.forwardedBytes;
+      accepted = Buffer.from(data).subarray(0, remaining).toString('utf8');
+      this.droppedBytes[stream] += size - Buffer.byteLength(accepted);
+      this.truncated = true;
+    }
+
+    if (accepted) {
+      this.forwardedBytes += Buffer.byteLength(accepted);
+      this.output[stream] += accepted;
+      this.append(stream, accepted);
+    }
+
+    if (this.truncated) {
+      this.flush();
+      this.enqueue([this.frame({ type: 'truncated', limit: this.maxOutputBytes })]);
+    }
+  }
+
+  /**
+   * Flush remaining output and send the final exit-status frame
+   */
+  async end(exitCode: number | null, signal: string | null = null): Promise<void> {
+    this.flush();
+    this.enqueue([this.frame({ type: 'exit', exitCode, signal, totalBytes: this.totalBytes })]);
+    await this.sendQueue;
+  }
+
+  /**
+   * Whether output has gone past the limit
+   */
+  isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  /**
+   * Output collected locally (capped at the output limit), with how much of each stream was dropped
+   */
+  getOutput(): CapturedOutput {
+    const marker = this.truncated
+      ? `\n[output truncated: ${this.totalBytes} bytes produced, limit is ${this.maxOutputBytes} bytes]`
+      : '';
+    return {
+      stdout: this.output.stdout + (this.truncated ? marker : ''),
+      stderr: this.output.stderr,
+      truncated: this.truncated,
+      limit: this.maxOutputBytes,
+      totalBytes: this.totalBytes,
+      droppedBytes: { ...this.droppedBytes }
+    };
+  }
+
+  private capture(stream: OutputStreamName, data: string, size: number): void {
+    if (this.truncated) {
+      this.droppedBytes[stream] += size;
+      return;
+    }
+
+    let accepted = data;
+    if (this.forwardedBytes + size > this.maxOutputBytes) {
+      accepted = Buffer.from(data).subarray(0, this.maxOutputBytes - this.forwardedBytes).toString('utf8');
+      this.droppedBytes[stream] += size - Buffer.byteLength(accepted);
+      this.truncated = true;
+    }
+    this.forwardedBytes += Buffer.byteLength(accepted);
+    this.output[stream] += accepted;
+  }
+
+  private append(stream: OutputStreamName, data: string): void {
+    if (this.pending && this.pending.stream !== stream) {
+      this.flush();
+    }
+
+    this.pending = this.pending
+      ? { stream, data: this.pending.data + data }
+      : { stream, data };
+
+    if (Buffer.byteLength(this.pending.data) >= this.maxChunkBytes) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushIntervalMs);
+    }
+  }
+
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (!this.pending) return;
+
+    const { stream, data } = this.pending;
+    this.pending = null;
+    this.enqueue([this.frame({ type: 'output', stream, data })]);
+  }
+
+  private frame(fields: Omit<OutputFrame, 'seq' | 'timestamp'>): OutputFrame {
+    return { seq: this.seq++, ...fields, timestamp: new Date().toISOString() };
+  }
+
+  private enqueue(frames: OutputFrame[]): void {
+    // Frames are sent one request at a time so the dashboard receives them in order
+    this.sendQueue = this.sendQueue.then(() => this.send(frames));
+  }
+
+  private async send(frames: OutputFrame[]): Promise<void> {
+    try {
+      await axios.put(
+        `${this.apiUrl}/api/remote-cli`,
+        {
+          commandId: this.commandId,
+          frames
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.authToken}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+    } catch (error: unknown) {
+      // Streaming is best effort - the full result is still reported when the command ends
+      if (!this.sendFailed) {
+        const errorMessage = axios.isAxiosError(error)
+          ? error.response?.data?.error || error.message
+          : error instanceof Error ? error.message : String(error);
+        this.onError(errorMessage);
+        this.sendFailed = true;
+      }
+    }
+  }
+}
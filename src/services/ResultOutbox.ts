@@ -0,0 +1,203 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { backoffDelay } from '../utils/backoff';
+
+export interface ResultPayload {
+  commandId: string;
+  [key: string]: unknown;
+}
+
+export interface OutboxEntry {
+  commandId: string;
+  apiUrl: string;
+  payload: ResultPayload;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface FlushSummary {
+  delivered: string[];
+  failed: string[];
+}
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Send a command result to the dashboard. Throws if the backend does not accept it.
+ */
+export async function deliverResult(apiUrl: string, authToken: string, payload: ResultPayload): Promise<void> {
+  try {
+    const response = await axios.put(
+      `${apiUrl}/api/remote-cli`,
+      payload,
+      {
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Backend rejected the result');
+    }
+  } catch (error: unknown) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(error.response?.data?.error || error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * On-disk queue of command results that could not be reported yet.
+ * Each result is stored as its own file so a crash never loses more than one write.
+ */
+export class ResultOutbox {
+  private dirPath: string;
+  private retryTimer: NodeJS.Timeout | null;
+  private flushing: boolean;
+
+  constructor(dirPath: string) {
+    this.dirPath = dirPath;
+    this.retryTimer = null;
+    this.flushing = false;
+  }
+
+  getPath(): string {
+    return this.dirPath;
+  }
+
+  /**
+   * Store a result for later delivery
+   */
+  enqueue(apiUrl: string, payload: ResultPayload, error?: string): OutboxEntry {
+    const now = new Date();
+    const entry: OutboxEntry = {
+      commandId: payload.commandId,
+      apiUrl,
+      payload,
+      attempts: 1,
+      createdAt: now.toISOString(),
+      nextAttemptAt: new Date(now.getTime() + backoffDelay(1, BASE_DELAY_MS, MAX_DELAY_MS)).toISOString(),
+      lastError: error
+    };
+    this.write(entry);
+    return entry;
+  }
+
+  list(): OutboxEntry[] {
+    if (!fs.existsSync(this.dirPath)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.dirPath)
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.read(path.join(this.dirPath, file)))
+      .filter((entry): entry is OutboxEntry => entry !== null)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Remove one entry, or every entry when no command id is given. Returns the number removed.
+   */
+  purge(commandId?: string): number {
+    const entries = commandId
+      ? this.list().filter(entry => entry.commandId === commandId)
+      : this.list();
+
+    entries.forEach(entry => fs.rmSync(this.entryPath(entry.commandId), { force: true }));
+    return entries.length;
+  }
+
+  /**
+   * Try to deliver pending results. Only entries whose backoff has expired are sent unless `force` is set.
+   */
+  async flush(authToken: string, force = false): Promise<FlushSummary> {
+    const summary: FlushSummary = { delivered: [], failed: [] };
+    if (this.flushing) {
+      return summary;
+    }
+
+    this.flushing = true;
+    try {
+      const now = Date.now();
+      for (const entry of this.list()) {
+        if (!force && new Date(entry.nextAttemptAt).getTime() > now) {
+          continue;
+        }
+
+        try {
+          await deliverResult(entry.apiUrl, authToken, entry.payload);
+          fs.rmSync(this.entryPath(entry.commandId), { force: true });
+          summary.delivered.push(entry.commandId);
+        } catch (error: unknown) {
+          entry.attempts++;
+          entry.lastError = error instanceof Error ? error.message : String(error);
+          entry.nextAttemptAt = new Date(Date.now() + backoffDelay(entry.attempts, BASE_DELAY_MS, MAX_DELAY_MS)).toISOString();
+          this.write(entry);
+          summary.failed.push(entry.commandId);
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Periodically retry pending results in the background. A failed round is passed to
+   * `onError` and retried on the next tick.
+   */
+  startRetryLoop(
+    authToken: string,
+    onDelivered: (commandIds: string[]) => void,
+    onError: (error: unknown) => void,
+    intervalMs = 5000
+  ): void {
+    this.stopRetryLoop();
+    this.retryTimer = setInterval(async () => {
+      try {
+        const summary = await this.flush(authToken);
+        if (summary.delivered.length > 0) {
+          onDelivered(summary.delivered);
+        }
+      } catch (error: unknown) {
+        onError(error);
+      }
+    }, intervalMs);
+  }
+
+  stopRetryLoop(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private entryPath(commandId: string): string {
+    return path.join(this.dirPath, `${encodeURIComponent(commandId)}.json`);
+  }
+
+  private read(filePath: string): OutboxEntry | null {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private write(entry: OutboxEntry): void {
+    fs.mkdirSync(this.dirPath, { recursive: true });
+
+    const filePath = this.entryPath(entry.commandId);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entry, null, 2));
+    fs.renameSync(tempPath, filePath);
+  }
+}
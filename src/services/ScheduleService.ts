@@ -0,0 +1,120 @@
+import { randomBytes } from 'crypto';
+import * as path from 'path';
+import { ConfigService, RemoteSchedule } from './ConfigService';
+import { matchesCron, nextCronRun, parseCron } from '../utils/cron';
+import { expandHomeDir } from '../utils/patterns';
+
+export interface ScheduledJob extends RemoteSchedule {
+  id: string;
+}
+
+export interface ScheduleOptions {
+  name?: string;
+  workingDirectory?: string;
+  workspace?: string;
+  timeout?: number;
+}
+
+/**
+ * Cron-style jobs the remote listener runs on its own. Jobs are stored in the CLI config and
+ * read fresh every minute, so changes apply to a running listener without a restart.
+ */
+export class ScheduleService {
+  private configService: ConfigService;
+
+  constructor(configService: ConfigService) {
+    this.configService = configService;
+  }
+
+  list(): ScheduledJob[] {
+    const schedules = this.configService.getRemoteSchedules();
+    return Object.keys(schedules)
+      .map(id => ({ id, ...schedules[id] }))
+      .sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+  }
+
+  /**
+   * Find a job by id or unique id prefix
+   */
+  get(id: string): ScheduledJob | null {
+    const matches = this.list().filter(job => job.id.startsWith(id));
+    if (matches.length > 1) {
+      throw new Error(`Schedule id "${id}" is ambiguous, use more characters`);
+    }
+    return matches[0] || null;
+  }
+
+  add(cron: string, command: string, options: ScheduleOptions = {}): ScheduledJob {
+    parseCron(cron);
+    if (!command.trim()) {
+      throw new Error('The command must not be empty');
+    }
+    if (options.workspace && !this.configService.getRemoteWorkspaces()[options.workspace]) {
+      throw new Error(`Unknown workspace "${options.workspace}"`);
+    }
+
+    // Outside a workspace the directory is stored absolute, since the listener may run elsewhere
+    const workingDirectory = options.workingDirectory && !options.workspace
+      ? path.resolve(expandHomeDir(options.workingDirectory))
+      : options.workingDirectory;
+
+    const id = randomBytes(4).toString('hex');
+    const schedule: RemoteSchedule = {
+      cron: cron.trim(),
+      command: command.trim(),
+      name: options.name,
+      workingDirectory,
+      workspace: options.workspace,
+      timeout: options.timeout,
+      paused: false,
+      addedAt: new Date().toISOString()
+    };
+    this.configService.setRemoteSchedule(id, schedule);
+    return { id, ...schedule };
+  }
+
+  remove(id: string): ScheduledJob | null {
+    const job = this.get(id);
+    if (!job) {
+      return null;
+    }
+    this.configService.removeRemoteSchedule(job.id);
+    return job;
+  }
+
+  setPaused(id: string, paused: boolean): ScheduledJob | null {
+    const job = this.get(id);
+    if (!job) {
+      return null;
+    }
+
+    const { id: jobId, ...schedule } = job;
+    this.configService.setRemoteSchedule(jobId, { ...schedule, paused });
+    return { ...job, paused };
+  }
+
+  /**
+   * When a job runs next, or null if it is paused or can never run
+   */
+  nextRun(job: ScheduledJob, after: Date = new Date()): Date | null {
+    if (job.paused) {
+      return null;
+    }
+    return nextCronRun(parseCron(job.cron), after);
+  }
+
+  /**
+   * Active jobs that fire in the minute containing `at`
+   */
+  due(at: Date): ScheduledJob[] {
+    return this.list().filter(job => {
+      if (job.paused) return false;
+      try {
+        return matchesCron(parseCron(job.cron), at);
+      } catch {
+        // Hand-edited config with a broken expression - skip the job rather than stop the listener
+        return false;
+      }
+    });
+  }
+}
@@ -0,0 +1,247 @@
+import { spawn } from 'child_process';
+import { CapturedOutput, RemoteOutputStream } from './RemoteOutputStream';
+import { killProcessTree } from '../utils/process';
+import { formatCommandLine } from '../utils/tokenize';
+
+export interface PtyOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  cols: number;
+  rows: number;
+}
+
+/**
+ * The parts of a pseudo-terminal a session needs, whichever backend provides it
+ */
+export interface PtyProcess {
+  backend: 'node-pty' | 'script';
+  pid: number | undefined;
+  write(data: string): void;
+  resize(cols: number, rows: number): boolean;
+  kill(signal?: NodeJS.Signals): void;
+  onData(listener: (data: string) => void): void;
+  onExit(listener: (exitCode: number | null, signal: string | null) => void): void;
+}
+
+export type TerminalCloseReason = 'exited' | 'closed' | 'idle' | 'cancelled';
+
+export interface TerminalExit {
+  exitCode: number | null;
+  signal: string | null;
+  reason: TerminalCloseReason;
+  output: CapturedOutput;
+  inputBytes: number;
+}
+
+export interface TerminalSessionOptions {
+  apiUrl: string;
+  authToken: string;
+  idleTimeoutMs: number;
+  maxOutputBytes: number;
+}
+
+export const DEFAULT_TERMINAL_COLS = 80;
+export const DEFAULT_TERMINAL_ROWS = 24;
+export const DEFAULT_TERMINAL_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Minimal shape of the optional node-pty module, which is not a dependency of the CLI
+interface NodePtyModule {
+  spawn(file: string, args: string[], options: { name: string; cols: number; rows: number; cwd: string; env: NodeJS.ProcessEnv }): {
+    pid: number;
+    write(data: string): void;
+    resize(cols: number, rows: number): void;
+    kill(signal?: string): void;
+    onData(listener: (data: string) => void): unknown;
+    onExit(listener: (event: { exitCode: number; signal?: number }) => void): unknown;
+  };
+}
+
+// Kept out of the import() literal so the build doesn't need node-pty's type declarations
+const NODE_PTY_MODULE = 'node-pty';
+
+let nodePty: NodePtyModule | null | undefined;
+
+/**
+ * node-pty when it is installed next to the CLI, otherwise null
+ */
+async function loadNodePty(): Promise<NodePtyModule | null> {
+  if (nodePty === undefined) {
+    nodePty = await import(NODE_PTY_MODULE).then((module: NodePtyModule) => module, () => null);
+  }
+  return nodePty;
+}
+
+/**
+ * Start a process on a pseudo-terminal. Uses node-pty when available and falls back to the
+ * `script` utility, which can't resize the terminal after it starts.
+ */
+export async function openPty(file: string, args: string[], options: PtyOptions): Promise<PtyProcess> {
+  const env = { ...options.env, TERM: options.env.TERM || 'xterm-256color' };
+
+  const pty = await loadNodePty();
+  if (pty) {
+    const child = pty.spawn(file, args, { name: env.TERM, cols: options.cols, rows: options.rows, cwd: options.cwd, env });
+    return {
+      backend: 'node-pty',
+      pid: child.pid,
+      write: data => child.write(data),
+      resize: (cols, rows) => {
+        child.resize(cols, rows);
+        return true;
+      },
+      kill: signal => child.kill(signal),
+      onData: listener => {
+        child.onData(listener);
+      },
+      onExit: listener => {
+        child.onExit(({ exitCode, signal }) => listener(exitCode, signal ? String(signal) : null));
+      }
+    };
+  }
+
+  if (process.platform === 'win32') {
+    throw new Error('Terminal sessions on Windows need the node-pty module');
+  }
+
+  // util-linux `script` takes a command line; BSD/macOS `script` takes argv after the log file
+  const commandLine = formatCommandLine([file, ...args]);
+  const scriptArgs = process.platform === 'linux'
+    ? ['-qfec', `stty cols ${options.cols} rows ${options.rows} 2>/dev/null; exec ${commandLine}`, '/dev/null']
+    : ['-q', '/dev/null', '/bin/sh', '-c', `stty cols ${options.cols} rows ${options.rows} 2>/dev/null; exec ${commandLine}`];
+
+  const child = spawn('script', scriptArgs, {
+    cwd: options.cwd,
+    env,
+    windowsHide: true,
+    detached: true
+  });
+  child.stdout.setEncoding('utf8');
+  child.stderr.setEncoding('utf8');
+  // Input racing the process's exit fails with EPIPE; the exit itself is reported through onExit
+  child.stdin.on('error', () => {});
+
+  return {
+    backend: 'script',
+    pid: child.pid,
+    write: data => {
+      child.stdin.write(data);
+    },
+    resize: () => false,
+    kill: signal => killProcessTree(child, signal),
+    onData: listener => {
+      child.stdout.on('data', listener);
+      child.stderr.on('data', listener);
+    },
+    onExit: listener => {
+      let exited = false;
+      const done = (exitCode: number | null, signal: string | null) => {
+        if (exited) return;
+        exited = true;
+        listener(exitCode, signal);
+      };
+      child.on('close', (code, signal) => done(code, signal));
+      child.on('error', () => done(null, null));
+    }
+  };
+}
+
+/**
+ * An interactive session opened by the dashboard: output is streamed as it arrives,
+ * input and resize events are forwarded, and the session closes when the process exits,
+ * the dashboard closes it, or nothing happens for the idle timeout.
+ */
+export class TerminalSession {
+  private pty: PtyProcess;
+  private stream: RemoteOutputStream;
+  private idleTimeoutMs: number;
+  private idleTimer: NodeJS.Timeout | null;
+  private closeReason: TerminalCloseReason | null;
+  private inputBytes: number;
+  private finished: boolean;
+  private exited: Promise<TerminalExit>;
+
+  constructor(commandId: string, pty: PtyProcess, options: TerminalSessionOptions) {
+    this.pty = pty;
+    this.stream = new RemoteOutputStream(options.apiUrl, options.authToken, commandId, {
+      maxOutputBytes: options.maxOutputBytes,
+      flushIntervalMs: 50,
+      forwardAll: true
+    });
+    this.idleTimeoutMs = options.idleTimeoutMs;
+    this.idleTimer = null;
+    this.closeReason = null;
+    this.inputBytes = 0;
+    this.finished = false;
+
+    this.exited = new Promise(resolve => {
+      pty.onExit(async (exitCode, signal) => {
+        this.finished = true;
+        if (this.idleTimer) {
+          clearTimeout(this.idleTimer);
+          this.idleTimer = null;
+        }
+        await this.stream.end(exitCode, signal);
+        resolve({
+          exitCode,
+          signal,
+          reason: this.closeReason || 'exited',
+          output: this.stream.getOutput(),
+          inputBytes: this.inputBytes
+        });
+      });
+    });
+
+    pty.onData(data => {
+      this.stream.write('stdout', data);
+      this.touch();
+    });
+    this.touch();
+  }
+
+  getBackend(): PtyProcess['backend'] {
+    return this.pty.backend;
+  }
+
+  /**
+   * Resolves once the process behind the terminal has exited
+   */
+  wait(): Promise<TerminalExit> {
+    return this.exited;
+  }
+
+  write(data: string): void {
+    if (this.closeReason) return;
+    this.inputBytes += Buffer.byteLength(data);
+    this.pty.write(data);
+    this.touch();
+  }
+
+  /**
+   * Resize the terminal. Returns false when the backend can't.
+   */
+  resize(cols: number, rows: number): boolean {
+    if (this.closeReason || !(cols > 0) || !(rows > 0)) return false;
+    return this.pty.resize(Math.floor(cols), Math.floor(rows));
+  }
+
+  /**
+   * Hang up the terminal, killing it if it doesn't exit within the grace period
+   */
+  close(reason: TerminalCloseReason, graceMs = 5000): void {
+    if (this.closeReason) return;
+    this.closeReason = reason;
+
+    this.pty.kill('SIGHUP');
+    const timer = setTimeout(() => this.pty.kill('SIGKILL'), graceMs);
+    timer.unref();
+    this.exited.then(() => clearTimeout(timer));
+  }
+
+  private touch(): void {
+    if (this.finished) return;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => this.close('idle'), this.idleTimeoutMs);
+  }
+}
@@ -0,0 +1,94 @@
+export interface WorkerPoolOptions {
+  concurrency?: number;
+  limits?: Record<string, number>;
+}
+
+interface QueuedTask {
+  key: string;
+  start: () => void;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Runs tasks in parallel up to a global concurrency limit, with optional
+ * per-key limits (e.g. at most one `npm` command at a time).
+ */
+export class WorkerPool {
+  private concurrency: number;
+  private limits: Record<string, number>;
+  private running: number;
+  private runningByKey: Map<string, number>;
+  private queue: QueuedTask[];
+
+  constructor(options: WorkerPoolOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.limits = options.limits || {};
+    this.running = 0;
+    this.runningByKey = new Map();
+    this.queue = [];
+  }
+
+  /**
+   * Run a task as soon as a worker slot for its key is free
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        key,
+        start: () => {
+          task().then(resolve, reject).finally(() => this.release(key));
+        }
+      });
+      this.drain();
+    });
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  getLimits(): Record<string, number> {
+    return { ...this.limits };
+  }
+
+  getRunningCount(): number {
+    return this.running;
+  }
+
+  getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  private canStart(key: string): boolean {
+    const limit = this.limits[key];
+    return limit === undefined || (this.runningByKey.get(key) || 0) < limit;
+  }
+
+  private drain(): void {
+    let index = 0;
+    while (this.running < this.concurrency && index < this.queue.length) {
+      const queued = this.queue[index];
+      if (!this.canStart(queued.key)) {
+        index++;
+        continue;
+      }
+
+      this.queue.splice(index, 1);
+      this.running++;
+      this.runningByKey.set(queued.key, (this.runningByKey.get(queued.key) || 0) + 1);
+      queued.start();
+    }
+  }
+
+  private release(key: string): void {
+    this.running--;
+    const count = (this.runningByKey.get(key) || 1) - 1;
+    if (count > 0) {
+      this.runningByKey.set(key, count);
+    } else {
+      this.runningByKey.delete(key);
+    }
+    this.drain();
+  }
+}
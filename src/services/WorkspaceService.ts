@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService, RemoteWorkspace } from './ConfigService';
+import { CommandPolicyService } from './CommandPolicyService';
+import { expandHomeDir } from '../utils/patterns';
+
+export interface NamedWorkspace extends RemoteWorkspace {
+  name: string;
+}
+
+export interface ResolvedWorkspace {
+  name: string;
+  root: string;
+  workingDirectory: string;
+  env: Record<string, string>;
+  policy: CommandPolicyService | null;
+}
+
+/**
+ * Thrown when a command tries to leave the workspace it targets
+ */
+export class WorkspaceAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceAccessError';
+  }
+}
+
+const WORKSPACE_NAME = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Named working directories the dashboard can target instead of machine-specific paths.
+ * Workspaces are stored in the CLI config and read fresh for every command.
+ */
+export class WorkspaceService {
+  private configService: ConfigService;
+
+  constructor(configService: ConfigService) {
+    this.configService = configService;
+  }
+
+  list(): NamedWorkspace[] {
+    const workspaces = this.configService.getRemoteWorkspaces();
+    return Object.keys(workspaces)
+      .sort()
+      .map(name => ({ name, ...workspaces[name] }));
+  }
+
+  get(name: string): NamedWorkspace | null {
+    const workspace = this.configService.getRemoteWorkspaces()[name];
+    return workspace ? { name, ...workspace } : null;
+  }
+
+  /**
+   * Register or replace a workspace. Paths are stored absolute.
+   */
+  add(name: string, dirPath: string, options: { env?: Record<string, string>; policy?: string } = {}): NamedWorkspace {
+    if (!WORKSPACE_NAME.test(name)) {
+      throw new Error(`Invalid workspace name "${name}". Use letters, numbers, ".", "_" and "-".`);
+    }
+
+    const resolved = path.resolve(expandHomeDir(dirPath));
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      throw new Error(`Directory does not exist: ${resolved}`);
+    }
+
+    let policy: string | undefined;
+    if (options.policy) {
+      const policyService = new CommandPolicyService(options.policy);
+      if (!policyService.load()) {
+        throw new Error(`Policy file not found: ${policyService.getPolicyPath()}`);
+      }
+      policy = policyService.getPolicyPath();
+    }
+
+    const workspace: RemoteWorkspace = {
+      path: resolved,
+      env: options.env && Object.keys(options.env).length > 0 ? options.env : undefined,
+      policy,
+      addedAt: new Date().toISOString()
+    };
+    this.configService.setRemoteWorkspace(name, workspace);
+    return { name, ...workspace };
+  }
+
+  remove(name: string): boolean {
+    return this.configService.removeRemoteWorkspace(name);
+  }
+
+  /**
+   * Name and path of every workspace, as advertised to the dashboard
+   */
+  describe(): Array<{ name: string; path: string }> {
+    return this.list().map(workspace => ({ name: workspace.name, path: workspace.path }));
+  }
+
+  /**
+   * Resolve a command's working directory inside a workspace. Relative directories are
+   * taken from the workspace root, and absolute ones must stay inside it.
+   */
+  resolve(name: string, workingDirectory?: string): ResolvedWorkspace {
+    const workspace = this.get(name);
+    if (!workspace) {
+      throw new Error(`Unknown workspace "${name}"`);
+    }
+
+    const dir = workingDirectory
+      ? path.resolve(workspace.path, expandHomeDir(workingDirectory))
+      : workspace.path;
+    const relative = path.relative(workspace.path, dir);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new WorkspaceAccessError(`Working directory ${dir} is outside workspace "${name}" (${workspace.path})`);
+    }
+
+    let policy: CommandPolicyService | null = null;
+    if (workspace.policy) {
+      policy = new CommandPolicyService(workspace.policy);
+      // A workspace policy that has gone missing must not silently allow everything
+      if (!policy.load()) {
+        throw new WorkspaceAccessError(`Policy file for workspace "${name}" not found: ${policy.getPolicyPath()}`);
+      }
+    }
+
+    return {
+      name,
+      root: workspace.path,
+      workingDirectory: dir,
+      env: workspace.env || {},
+      policy
+    };
+  }
+}
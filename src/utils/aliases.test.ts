@@ -0,0 +1,58 @@
+import { expandAliases } from './aliases';
+
+describe('expandAliases', () => {
+  it('leaves a line without aliases alone', () => {
+    expect(expandAliases('task list', {})).toBe('task list');
+    expect(expandAliases('task list', { tl: 'task list' })).toBe('task list');
+  });
+
+  it('replaces an alias with its command line, with or without the leading colon', () => {
+    expect(expandAliases('tl', { tl: 'task list' })).toBe('task list');
+    expect(expandAliases(':tl', { tl: 'task list' })).toBe('task list');
+  });
+
+  it('appends the extra words to a macro without parameters', () => {
+    expect(expandAliases(`ta 'buy milk' --due=today`, { ta: 'task add' })).toBe(`task add 'buy milk' --due today`);
+  });
+
+  it('fills in positional parameters, each as one word', () => {
+    const aliases = { note: 'memory save $1 --content $2', all: 'agent ask $@' };
+    expect(expandAliases(`note "a title" 'it''s; fine'`, aliases)).toBe(`memory save 'a title' --content 'its; fine'`);
+    expect(expandAliases('all one two', aliases)).toBe('agent ask one two');
+    expect(expandAliases('note only', aliases)).toBe('memory save only --content ');
+  });
+
+  it('escapes parameters inside double quotes and leaves single-quoted ones alone', () => {
+    const aliases = { say: `agent ask "about $1" '$2'` };
+    expect(expandAliases(`say 'a "$b"'`, aliases)).toBe(`agent ask "about a \\"\\$b\\"" '$2'`);
+  });
+
+  it('expands every command of a chain', () => {
+    expect(expandAliases('tl && gs | x', { tl: 'task list', gs: 'git status' })).toBe('task list && git status | x');
+  });
+
+  it('expands a macro that is itself a chain', () => {
+    expect(expandAliases('morning', { morning: 'git status; task list' })).toBe('git status; task list');
+  });
+
+  it('expands aliases used by other aliases', () => {
+    expect(expandAliases('a', { a: 'b x', b: 'c y', c: 'task list' })).toBe('task list y x');
+  });
+
+  it('stops an alias that calls itself', () => {
+    expect(() => expandAliases('tl', { tl: 'tl -a' })).toThrow('Aliases nested more than 10 levels deep');
+  });
+
+  it('stops aliases that call each other', () => {
+    expect(() => expandAliases('ping', { ping: 'pong', pong: 'ping' })).toThrow('does an alias call itself?');
+  });
+
+  it('expands up to the depth limit', () => {
+    const aliases: Record<string, string> = { a9: 'version' };
+    for (let level = 0; level < 9; level++) {
+      aliases[`a${level}`] = `a${level + 1}`;
+    }
+    expect(expandAliases('a0', aliases)).toBe('version');
+    expect(() => expandAliases('a0', { ...aliases, a9: 'a10', a10: 'version' })).toThrow('nested more than 10');
+  });
+});
@@ -0,0 +1,76 @@
+import { parseCommandChain } from './pipeline';
+import { quoteArgument, tokenizeEchoCommand } from './tokenize';
+
+// Deep enough for macros built from macros, shallow enough to stop an alias that calls itself
+const MAX_ALIAS_DEPTH = 10;
+
+/**
+ * Replace every command of a chain whose first word is an alias with the alias' command line,
+ * filling in `$1`…`$9` and `$@` from the words that followed it. Like a shell alias, the
+ * replacement is textual, so a macro can itself be a chain; macros using other aliases are
+ * expanded in turn.
+ */
+export function expandAliases(line: string, aliases: Record<string, string>, depth = 0): string {
+  if (Object.keys(aliases).length === 0) {
+    return line;
+  }
+
+  let expanded = false;
+  const text = parseCommandChain(line).map(pipeline => {
+    const commands = pipeline.commands.map(command => {
+      const [name, ...args] = tokenizeEchoCommand(command.startsWith(':') ? command.slice(1) : command);
+      if (!name || !Object.prototype.hasOwnProperty.call(aliases, name)) {
+        return command;
+      }
+      expanded = true;
+      return substituteParameters(aliases[name], args);
+    });
+    return (pipeline.operator ? ` ${pipeline.operator} ` : '') + commands.join(' | ');
+  }).join('');
+
+  if (!expanded) {
+    return line;
+  }
+  if (depth >= MAX_ALIAS_DEPTH) {
+    throw new Error(`Aliases nested more than ${MAX_ALIAS_DEPTH} levels deep (does an alias call itself?)`);
+  }
+  return expandAliases(text, aliases, depth + 1);
+}
+
+/**
+ * Fill in positional parameters, quoted so each value stays one word. Parameters inside single
+ * quotes or after a backslash are left alone. A macro without parameters gets the extra words
+ * appended, like a shell alias.
+ */
+function substituteParameters(template: string, args: string[]): string {
+  let result = '';
+  let quote: '"' | "'" | null = null;
+  let used = false;
+
+  for (let index = 0; index < template.length; index++) {
+    const char = template[index];
+    const next = template[index + 1];
+
+    if (quote === "'") {
+      quote = char === "'" ? null : quote;
+      result += char;
+    } else if (char === '\\' && next !== undefined) {
+      result += char + next;
+      index++;
+    } else if (char === '"' || char === "'") {
+      quote = quote === char ? null : quote || char;
+      result += char;
+    } else if (char === '$' && next !== undefined && /[@1-9]/.test(next)) {
+      const values = next === '@' ? args : args.slice(Number(next) - 1, Number(next));
+      result += quote === '"'
+        ? values.map(value => value.replace(/["\\$`]/g, '\\$&')).join(' ')
+        : values.map(quoteArgument).join(' ');
+      used = true;
+      index++;
+    } else {
+      result += char;
+    }
+  }
+
+  return used || args.length === 0 ? result : `${result} ${args.map(quoteArgument).join(' ')}`;
+}
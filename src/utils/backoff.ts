@@ -0,0 +1,8 @@
+/**
+ * Exponential backoff with jitter: base, 2x base, 4x base ... capped at `maxMs`,
+ * randomised to between 50% and 100% of the delay so clients don't retry in lockstep
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const delay = Math.min(maxMs, baseMs * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
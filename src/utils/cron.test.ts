@@ -0,0 +1,85 @@
+import { matchesCron, nextCronRun, parseCron } from './cron';
+
+const at = (text: string) => new Date(text);
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-17/4 * * *');
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+  });
+
+  it('reads a single value with a step as a start', () => {
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('accepts month and day names in any case', () => {
+    const schedule = parseCron('0 0 * JAN-mar mon,Fri');
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 5]);
+  });
+
+  it('folds 7 into Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('expands macros', () => {
+    expect(parseCron('@daily')).toEqual({ ...parseCron('0 0 * * *'), source: '@daily' });
+  });
+
+  it.each([
+    ['* * * *', 'expected 5 fields'],
+    ['60 * * * *', 'minute 60 is out of range (0-59)'],
+    ['* * 0 * *', 'day of month 0 is out of range (1-31)'],
+    ['* * * foo *', 'Invalid month "foo"'],
+    ['*/0 * * * *', 'Invalid step "0" in minute'],
+    ['* 5-1 * * *', 'Invalid range "5-1" in hour']
+  ])('rejects %j', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('matchesCron', () => {
+  it('matches the minute a schedule fires in', () => {
+    const schedule = parseCron('30 9 * * *');
+    expect(matchesCron(schedule, at('2024-03-04T09:30:45'))).toBe(true);
+    expect(matchesCron(schedule, at('2024-03-04T09:31:00'))).toBe(false);
+  });
+
+  it('fires on either day field when both are restricted', () => {
+    // The 13th of the month, or any Friday
+    const schedule = parseCron('0 0 13 * 5');
+    expect(matchesCron(schedule, at('2024-03-13T00:00'))).toBe(true);
+    expect(matchesCron(schedule, at('2024-03-08T00:00'))).toBe(true);
+    expect(matchesCron(schedule, at('2024-03-09T00:00'))).toBe(false);
+  });
+
+  it('needs both day fields when one of them is unrestricted', () => {
+    const schedule = parseCron('0 0 * * 1');
+    expect(matchesCron(schedule, at('2024-03-04T00:00'))).toBe(true);
+    expect(matchesCron(schedule, at('2024-03-05T00:00'))).toBe(false);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the next matching minute after the given time', () => {
+    expect(nextCronRun(parseCron('*/15 * * * *'), at('2024-03-04T10:07:30'))).toEqual(at('2024-03-04T10:15:00'));
+  });
+
+  it('never returns the given minute itself', () => {
+    expect(nextCronRun(parseCron('* * * * *'), at('2024-03-04T10:07:00'))).toEqual(at('2024-03-04T10:08:00'));
+  });
+
+  it('rolls over days, months and years', () => {
+    expect(nextCronRun(parseCron('0 9 * * *'), at('2024-03-04T09:00'))).toEqual(at('2024-03-05T09:00'));
+    expect(nextCronRun(parseCron('@yearly'), at('2024-06-01T12:00'))).toEqual(at('2025-01-01T00:00'));
+  });
+
+  it('finds 29 February in a leap year', () => {
+    expect(nextCronRun(parseCron('0 0 29 2 *'), at('2025-01-01T00:00'))).toEqual(at('2028-02-29T00:00'));
+  });
+
+  it('returns null for a date that never exists', () => {
+    expect(nextCronRun(parseCron('0 0 30 2 *'), at('2024-01-01T00:00'))).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { createHash } from 'crypto';
+import * as os from 'os';
+
+export interface EnvironmentFingerprint {
+  hash: string;
+  platform: string;
+  arch: string;
+  osRelease: string;
+  hostname: string;
+  user: string;
+  nodeVersion: string;
+  variableCount: number;
+}
+
+// Variables whose values are safe to fold into the fingerprint; all others contribute only their names
+const FINGERPRINT_VALUES = ['PATH', 'SHELL', 'LANG', 'HOME', 'NODE_ENV'];
+
+/**
+ * Describe the environment a command ran in without revealing secret values.
+ * The hash changes when variables are added or removed, or when PATH, SHELL, LANG, HOME or NODE_ENV change.
+ */
+export function getEnvironmentFingerprint(env: NodeJS.ProcessEnv = process.env): EnvironmentFingerprint {
+  const names = Object.keys(env).filter(name => env[name] !== undefined).sort();
+  const hash = createHash('sha256');
+  for (const name of names) {
+    hash.update(FINGERPRINT_VALUES.includes(name) ? `${name}=${env[name]}\n` : `${name}\n`);
+  }
+
+  return {
+    hash: `sha256:${hash.digest('hex')}`,
+    platform: os.platform(),
+    arch: os.arch(),
+    osRelease: os.release(),
+    hostname: os.hostname(),
+    user: os.userInfo().username,
+    nodeVersion: process.version,
+    variableCount: names.length
+  };
+}
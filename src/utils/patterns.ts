@@ -0,0 +1,66 @@
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Expand a leading `~` to the current user's home directory
+ */
+export function expandHomeDir(filePath: string): string {
+  if (filePath === '~') {
+    return os.homedir();
+  }
+  if (filePath.startsWith('~/') || filePath.startsWith('~\\')) {
+    return path.join(os.homedir(), filePath.slice(2));
+  }
+  return filePath;
+}
+
+/**
+ * Normalize a path so it can be matched against glob patterns on every platform
+ */
+export function normalizeForMatching(filePath: string): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  return normalized.length > 1 && normalized.endsWith('/') ? normalized.slice(0, -1) : normalized;
+}
+
+/**
+ * Convert a glob pattern into a regular expression.
+ * `**` matches across path separators, `*` matches within a segment and `?` matches one character.
+ * A trailing `/**` also matches the directory itself.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let index = 0;
+  const normalized = normalizeForMatching(expandHomeDir(pattern));
+
+  while (index < normalized.length) {
+    const char = normalized[index];
+
+    if (char === '*') {
+      if (normalized[index + 1] === '*') {
+        if (normalized[index - 1] === '/' && index + 2 === normalized.length) {
+          // "dir/**" matches "dir" as well as everything below it
+          source = source.slice(0, -1) + '(?:/.*)?';
+        } else {
+          source += '.*';
+        }
+        index += 2;
+        continue;
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+    index++;
+  }
+
+  return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(normalizeForMatching(value));
+}
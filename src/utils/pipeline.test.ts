@@ -0,0 +1,104 @@
+import { Pipeline, StepResult, isCommandChain, parseCommandChain, runCommandChain } from './pipeline';
+
+describe('parseCommandChain', () => {
+  it('returns a single command as one pipeline', () => {
+    expect(parseCommandChain('task list')).toEqual([{ commands: ['task list'], operator: null }]);
+  });
+
+  it('splits pipelines and the commands of each', () => {
+    expect(parseCommandChain('git status && task list | grep x || echo none; time')).toEqual([
+      { commands: ['git status'], operator: null },
+      { commands: ['task list', 'grep x'], operator: '&&' },
+      { commands: ['echo none'], operator: '||' },
+      { commands: ['time'], operator: ';' }
+    ]);
+  });
+
+  it('leaves quoted and escaped operators in the command', () => {
+    expect(parseCommandChain(`task add 'a && b' "c | \\"d\\"" e\\;f`)).toEqual([
+      { commands: [`task add 'a && b' "c | \\"d\\"" e\\;f`], operator: null }
+    ]);
+  });
+
+  it('allows a trailing semicolon', () => {
+    expect(parseCommandChain('version;')).toEqual([{ commands: ['version'], operator: null }]);
+  });
+
+  it('returns an empty line as one empty command', () => {
+    expect(parseCommandChain('  ')).toEqual([{ commands: [''], operator: null }]);
+  });
+
+  it.each([
+    ['&& task list', 'Syntax error near "&&": missing command'],
+    ['task list ||', 'Syntax error near "||": missing command'],
+    ['task list |', 'Syntax error near "|": missing command'],
+    ['a | | b', 'Syntax error near "|": missing command'],
+    ['a;; b', 'Syntax error near ";": missing command']
+  ])('rejects %j', (input, message) => {
+    expect(() => parseCommandChain(input)).toThrow(message);
+  });
+
+  it('tells a chain from a single command', () => {
+    expect(isCommandChain(parseCommandChain('a'))).toBe(false);
+    expect(isCommandChain(parseCommandChain('a | b'))).toBe(true);
+    expect(isCommandChain(parseCommandChain('a; b'))).toBe(true);
+  });
+});
+
+describe('runCommandChain', () => {
+  // Runs `ok <output>` and `fail <error>`; records each command with its input
+  const run = (line: string) => {
+    const calls: Array<[string, string | undefined]> = [];
+    const result = runCommandChain(parseCommandChain(line), async (command, input): Promise<StepResult> => {
+      calls.push([command, input]);
+      const [verb, ...rest] = command.split(' ');
+      if (verb === 'throw') {
+        throw new Error(rest.join(' '));
+      }
+      return verb === 'ok' ? { success: true, output: rest.join(' ') } : { success: false, output: '', error: rest.join(' ') };
+    });
+    return result.then(chain => ({ ...chain, calls }));
+  };
+
+  it('runs the next pipeline after && only on success', async () => {
+    expect(await run('ok a && ok b')).toMatchObject({ success: true, outputs: ['a', 'b'], error: null });
+    const failed = await run('fail oops && ok b');
+    expect(failed).toMatchObject({ success: false, outputs: [], error: 'oops' });
+    expect(failed.calls).toHaveLength(1);
+  });
+
+  it('runs the next pipeline after || only on failure', async () => {
+    expect((await run('ok a || ok b')).calls).toHaveLength(1);
+    expect(await run('fail oops || ok b')).toMatchObject({ success: true, outputs: ['b'], error: 'oops' });
+  });
+
+  it('always runs the pipeline after ;', async () => {
+    expect(await run('fail oops; ok b')).toMatchObject({ success: true, outputs: ['b'] });
+  });
+
+  it('skips past a skipped pipeline to the next operator', async () => {
+    expect(await run('fail x && ok y || ok z')).toMatchObject({ success: true, outputs: ['z'] });
+  });
+
+  it('passes each command the previous command\'s output', async () => {
+    const result = await run('ok one | ok two | ok three');
+    expect(result.calls).toEqual([['ok one', undefined], ['ok two', 'one'], ['ok three', 'two']]);
+    expect(result.outputs).toEqual(['three']);
+  });
+
+  it('passes on no output after a failed command and takes the last command\'s status', async () => {
+    const result = await run('fail x | ok y');
+    expect(result.calls[1]).toEqual(['ok y', '']);
+    expect(result).toMatchObject({ success: true, error: 'x' });
+  });
+
+  it('turns a thrown error into a failed step', async () => {
+    expect(await run('throw boom && ok b')).toMatchObject({ success: false, outputs: [], error: 'boom' });
+  });
+
+  it('names the command when a failure has no error', async () => {
+    const pipelines: Pipeline[] = [{ commands: ['task list'], operator: null }];
+    const result = await runCommandChain(pipelines, async () => ({ success: false, output: '' }));
+    expect(result.error).toBe('task list failed');
+  });
+});
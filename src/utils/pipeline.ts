@@ -0,0 +1,149 @@
+export type ChainOperator = '&&' | '||' | ';';
+
+/**
+ * Commands joined by `|`: each one gets the previous one's output as its input
+ */
+export interface Pipeline {
+  commands: string[];
+  // How this pipeline is joined to the one before it (null for the first)
+  operator: ChainOperator | null;
+}
+
+export interface StepResult {
+  success: boolean;
+  output: string;
+  error?: string;
+}
+
+export interface ChainResult {
+  success: boolean;
+  // Output of the last command of every pipeline that ran
+  outputs: string[];
+  // Error of the last command that failed, if any
+  error: string | null;
+}
+
+/**
+ * Split a command line into pipelines joined by `&&`, `||` and `;`, each made of commands
+ * joined by `|`. Operators inside quotes or after a backslash are left alone; the commands
+ * are returned as written, for the tokenizer to split into words.
+ */
+export function parseCommandChain(input: string): Pipeline[] {
+  const pipelines: Pipeline[] = [];
+  let commands: string[] = [];
+  let operator: ChainOperator | null = null;
+  let current = '';
+  let quote: '"' | "'" | null = null;
+
+  const endCommand = (next: string) => {
+    if (!current.trim()) {
+      throw new Error(`Syntax error near "${next}": missing command`);
+    }
+    commands.push(current.trim());
+    current = '';
+  };
+
+  const endPipeline = (next: ChainOperator) => {
+    endCommand(next);
+    pipelines.push({ commands, operator });
+    commands = [];
+    operator = next;
+  };
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (quote) {
+      current += char;
+      if (char === '\\' && quote === '"' && index + 1 < input.length) {
+        current += input[++index];
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '\\' && index + 1 < input.length) {
+      current += char + input[++index];
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === '&' && input[index + 1] === '&') {
+      endPipeline('&&');
+      index++;
+    } else if (char === '|' && input[index + 1] === '|') {
+      endPipeline('||');
+      index++;
+    } else if (char === '|') {
+      endCommand('|');
+    } else if (char === ';') {
+      endPipeline(';');
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) {
+    commands.push(current.trim());
+  } else if (commands.length > 0) {
+    throw new Error('Syntax error near "|": missing command');
+  } else if (operator === '&&' || operator === '||') {
+    throw new Error(`Syntax error near "${operator}": missing command`);
+  } else if (operator === ';') {
+    // A trailing `;` is allowed, like in a shell
+    return pipelines;
+  } else {
+    // An empty line is a single empty command
+    commands.push('');
+  }
+  pipelines.push({ commands, operator });
+  return pipelines;
+}
+
+/**
+ * Whether a command line chains more than one command
+ */
+export function isCommandChain(pipelines: Pipeline[]): boolean {
+  return pipelines.length > 1 || pipelines[0].commands.length > 1;
+}
+
+/**
+ * Run pipelines with shell semantics: `&&` runs the next pipeline only if the previous one
+ * succeeded, `||` only if it failed, `;` always. A pipeline's status is that of its last command.
+ */
+export async function runCommandChain(
+  pipelines: Pipeline[],
+  run: (command: string, input: string | undefined) => Promise<StepResult>
+): Promise<ChainResult> {
+  const outputs: string[] = [];
+  let success = true;
+  let error: string | null = null;
+
+  for (const pipeline of pipelines) {
+    if ((pipeline.operator === '&&' && !success) || (pipeline.operator === '||' && success)) {
+      continue;
+    }
+
+    let input: string | undefined;
+    let result: StepResult = { success: true, output: '' };
+    for (const command of pipeline.commands) {
+      try {
+        result = await run(command, input);
+      } catch (runError: unknown) {
+        result = { success: false, output: '', error: runError instanceof Error ? runError.message : String(runError) };
+      }
+      if (!result.success) {
+        error = result.error || `${command} failed`;
+      }
+      // A failed command passes on no output, like a shell command that printed nothing
+      input = result.success ? result.output : '';
+    }
+
+    success = result.success;
+    if (result.success && result.output) {
+      outputs.push(result.output);
+    }
+  }
+
+  return { success, outputs, error };
+}
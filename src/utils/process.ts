@@ -0,0 +1,34 @@
+import { ChildProcess, spawn } from 'child_process';
+
+/**
+ * Kill a child process together with everything it spawned.
+ * On POSIX the child must have been started with `detached: true` so it leads its own process group.
+ */
+export function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (!child.pid || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true });
+    return;
+  }
+
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    // The process group is already gone - fall back to the child itself
+    child.kill(signal);
+  }
+}
+
+/**
+ * Terminate a process tree, escalating to SIGKILL if it is still alive after the grace period
+ */
+export function terminateProcessTree(child: ChildProcess, graceMs = 5000): void {
+  killProcessTree(child, 'SIGTERM');
+
+  const timer = setTimeout(() => killProcessTree(child, 'SIGKILL'), graceMs);
+  timer.unref();
+  child.once('close', () => clearTimeout(timer));
+}
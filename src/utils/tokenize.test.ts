@@ -0,0 +1,166 @@
+import { execFileSync } from 'child_process';
+import {
+  buildCommandArgv,
+  findShellExpansion,
+  findShellOperator,
+  formatCommandLine,
+  quoteArgument,
+  tokenizeCommandLine,
+  tokenizeEchoCommand
+} from './tokenize';
+
+describe('tokenizeCommandLine', () => {
+  it('splits on whitespace', () => {
+    expect(tokenizeCommandLine('  git   log\t--oneline\n-5 ')).toEqual(['git', 'log', '--oneline', '-5']);
+  });
+
+  it('keeps single-quoted text literal', () => {
+    expect(tokenizeCommandLine(`echo 'a "b" $HOME \\n'`)).toEqual(['echo', 'a "b" $HOME \\n']);
+  });
+
+  it('handles escapes inside double quotes', () => {
+    expect(tokenizeCommandLine('echo "say \\"hi\\" \\\\ \\$x \\`y\\` \\n"')).toEqual(['echo', 'say "hi" \\ $x `y` \\n']);
+  });
+
+  it('joins adjacent quoted and unquoted parts into one word', () => {
+    expect(tokenizeCommandLine(`--name="two words"'!' a"b"c`)).toEqual(['--name=two words!', 'abc']);
+  });
+
+  it('escapes the next character outside quotes', () => {
+    expect(tokenizeCommandLine('touch my\\ file \\"q\\"')).toEqual(['touch', 'my file', '"q"']);
+  });
+
+  it('treats a backslash before a newline as a line continuation', () => {
+    expect(tokenizeCommandLine('npm run \\\nbuild')).toEqual(['npm', 'run', 'build']);
+  });
+
+  it('keeps empty quoted arguments', () => {
+    expect(tokenizeCommandLine(`git commit -m '' ""`)).toEqual(['git', 'commit', '-m', '', '']);
+  });
+
+  it('returns no words for a blank line', () => {
+    expect(tokenizeCommandLine(' \t\n')).toEqual([]);
+  });
+
+  it('throws on unterminated quotes', () => {
+    expect(() => tokenizeCommandLine(`echo 'oops`)).toThrow('Unterminated single quote');
+    expect(() => tokenizeCommandLine('echo "oops')).toThrow('Unterminated double quote');
+  });
+});
+
+describe('findShellOperator', () => {
+  it.each([
+    ['git status; rm -rf ~', ';'],
+    ['cat a | sh', '|'],
+    ['make && make install', '&'],
+    ['echo hi > out', '>'],
+    ['echo $(whoami)', '$('],
+    ['echo `whoami`', '`'],
+    ['git status\nrm -rf ~', 'newline']
+  ])('finds the operator in %j', (input, operator) => {
+    expect(findShellOperator(input)).toBe(operator);
+  });
+
+  it('ignores quoted and escaped operators', () => {
+    expect(findShellOperator(`echo 'a; b' "c | d" e\\;f '$(x)' "\\$(y)"`)).toBeNull();
+    expect(findShellOperator('echo $HOME "$USER"')).toBeNull();
+  });
+
+  it('finds command substitution inside double quotes', () => {
+    expect(findShellOperator('git "$(rm -rf ~)"')).toBe('$(');
+    expect(findShellOperator('git "`id`"')).toBe('`');
+  });
+});
+
+describe('buildCommandArgv', () => {
+  it('appends request arguments without splitting them', () => {
+    expect(buildCommandArgv('git commit', ['-m', 'fix: a; b'])).toEqual(['git', 'commit', '-m', 'fix: a; b']);
+  });
+});
+
+describe('tokenizeEchoCommand', () => {
+  it('splits --name=value flags in two', () => {
+    expect(tokenizeEchoCommand('task add "Buy milk" --priority=high --due="next friday"'))
+      .toEqual(['task', 'add', 'Buy milk', '--priority', 'high', '--due', 'next friday']);
+  });
+
+  it('keeps an empty flag value', () => {
+    expect(tokenizeEchoCommand('memory search --tag=')).toEqual(['memory', 'search', '--tag', '']);
+  });
+
+  it('leaves arguments after -- alone', () => {
+    expect(tokenizeEchoCommand('agent ask -- --model=gpt "a=b"')).toEqual(['agent', 'ask', '--', '--model=gpt', 'a=b']);
+  });
+
+  it('does not split values that only look like flags', () => {
+    expect(tokenizeEchoCommand(`task add '--x=1' -p=2 --=3`)).toEqual(['task', 'add', '--x', '1', '-p=2', '--=3']);
+  });
+});
+
+describe('quoteArgument and formatCommandLine', () => {
+  const cases: string[][] = [
+    ['plain', 'words', 'path/to/file.ts', 'user@host:22', '--flag=value'],
+    [''],
+    ['', 'a', ''],
+    ['two words', '  padded  ', '\ttab'],
+    ['line one\nline two', 'trailing newline\n', '\r\n'],
+    ["it's", "''", "'", `"double"`, `mixed '"' quotes`, `\\'`, `'\\''`],
+    ['$HOME', '`id`', '$(id)', 'a; b', 'a | b', 'a && b', '> out', '*', '~', '#comment', '!'],
+    ['back\\slash', '\\', '\\\\n', 'end\\'],
+    ['héllo', '日本語', 'emoji 🎉', 'zero​width', 'ünïcödé "quoted"']
+  ];
+
+  it.each(cases)('round-trips through tokenizeCommandLine: %j', (...args: string[]) => {
+    expect(tokenizeCommandLine(formatCommandLine(args))).toEqual(args);
+  });
+
+  it.each(cases.flat().map(word => [word]))('quotes %j as a single word', word => {
+    expect(tokenizeCommandLine(quoteArgument(word))).toEqual([word]);
+  });
+
+  it('leaves safe words unquoted', () => {
+    expect(formatCommandLine(['npm', 'run', 'build:prod', '--scope=@qirvo/cli'])).toBe('npm run build:prod --scope=@qirvo/cli');
+  });
+
+  it('quotes words the shell would expand', () => {
+    expect(quoteArgument('$HOME')).toBe(`'$HOME'`);
+    expect(quoteArgument("it's")).toBe(`'it'\\''s'`);
+    expect(quoteArgument('')).toBe(`''`);
+  });
+
+  it('never contains an unquoted shell operator or expansion', () => {
+    for (const args of cases) {
+      expect(findShellOperator(formatCommandLine(args))).toBeNull();
+      expect(findShellExpansion(formatCommandLine(args))).toBeNull();
+    }
+  });
+
+  (process.platform === 'win32' ? it.skip : it)('reads back the same through /bin/sh', () => {
+    for (const args of cases) {
+      const output = execFileSync('/bin/sh', ['-c', `printf '%s\\0' ${formatCommandLine(args)}`], { encoding: 'utf8' });
+      expect(output.split('\0').slice(0, -1)).toEqual(args);
+    }
+  });
+});
+
+describe('findShellExpansion', () => {
+  it.each([
+    [`echo $'\\'';id;#'`, `$'`],
+    ['echo $"x"', '$"'],
+    ['echo $HOME', '$'],
+    ['ls *.ts', '*'],
+    ['ls file?', '?'],
+    ['ls [ab]', '['],
+    ['echo {a,b}', '{'],
+    ['echo {1..3}', '{'],
+    ['cd ~/src', '~'],
+    ['echo hi #; id', '#']
+  ])('finds the expansion in %j', (input, expansion) => {
+    expect(findShellExpansion(input)).toBe(expansion);
+  });
+
+  it('ignores quoted, escaped and literal characters', () => {
+    expect(findShellExpansion(`echo '$x' "*" \\$y a~b a#b`)).toBeNull();
+    expect(findShellExpansion('find . -exec ls {} +')).toBeNull();
+  });
+});
@@ -0,0 +1,234 @@
+const SHELL_OPERATOR_CHARS = '|&;<>`';
+const GLOB_CHARS = '*?[';
+
+/**
+ * Walk a command line the way a POSIX shell splits words: whitespace separates arguments,
+ * single quotes are literal, double quotes allow \" \\ \$ and \` escapes, and a backslash
+ * outside quotes escapes the next character.
+ */
+function scan(
+  input: string,
+  onOperator?: (operator: string) => void,
+  onExpansion?: (expansion: string) => void
+): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let index = 0;
+
+  const finish = () => {
+    if (inToken) {
+      tokens.push(current);
+    }
+    current = '';
+    inToken = false;
+  };
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (char === "'") {
+      const end = input.indexOf("'", index + 1);
+      if (end === -1) {
+        throw new Error('Unterminated single quote');
+      }
+      current += input.slice(index + 1, end);
+      inToken = true;
+      index = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      index++;
+      let closed = false;
+      while (index < input.length) {
+        const inner = input[index];
+        if (inner === '"') {
+          closed = true;
+          index++;
+          break;
+        }
+        if (inner === '\\' && index + 1 < input.length && '"\\$`'.includes(input[index + 1])) {
+          current += input[index + 1];
+          index += 2;
+          continue;
+        }
+        // The shell still runs command substitutions inside double quotes
+        if (onOperator && (inner === '`' || (inner === '$' && input[index + 1] === '('))) {
+          onOperator(inner === '$' ? '$(' : inner);
+        }
+        current += inner;
+        index++;
+      }
+      if (!closed) {
+        throw new Error('Unterminated double quote');
+      }
+      inToken = true;
+      continue;
+    }
+
+    if (char === '\\') {
+      if (index + 1 < input.length) {
+        // A backslash before a newline continues the line
+        if (input[index + 1] !== '\n') {
+          current += input[index + 1];
+          inToken = true;
+        }
+        index += 2;
+      } else {
+        index++;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      // An unquoted newline ends a command, like `;`
+      if (onOperator && char === '\n') {
+        onOperator('newline');
+      }
+      finish();
+      index++;
+      continue;
+    }
+
+    if (onOperator && (SHELL_OPERATOR_CHARS.includes(char) || (char === '$' && input[index + 1] === '('))) {
+      onOperator(char === '$' ? '$(' : char);
+    }
+    if (onExpansion) {
+      const expansion = describeExpansion(input, index, inToken);
+      if (expansion) {
+        onExpansion(expansion);
+      }
+    }
+
+    current += char;
+    inToken = true;
+    index++;
+  }
+
+  finish();
+  return tokens;
+}
+
+/**
+ * The expansion an unquoted character starts, if any: `$` (variables, `$'...'` and `$"..."`
+ * quoting), globs, brace lists, a leading `~` or a `#` comment
+ */
+function describeExpansion(input: string, index: number, inToken: boolean): string | null {
+  const char = input[index];
+  if (char === '$') {
+    const next = input[index + 1];
+    return next === "'" || next === '"' ? `$${next}` : '$';
+  }
+  if (GLOB_CHARS.includes(char)) {
+    return char;
+  }
+  if (char === '{') {
+    // Only `{a,b}` and `{1..3}` expand; `{}` as used by find stays literal
+    const end = input.slice(index).search(/[}\s]/);
+    const body = end === -1 ? input.slice(index) : input.slice(index, index + end);
+    return body.includes(',') || body.includes('..') ? '{' : null;
+  }
+  if (!inToken && (char === '~' || char === '#')) {
+    return char;
+  }
+  return null;
+}
+
+/**
+ * Split a command line into an argv array, honouring quotes and backslash escapes.
+ * Throws on unterminated quotes.
+ */
+export function tokenizeCommandLine(input: string): string[] {
+  return scan(input);
+}
+
+/**
+ * The first unquoted shell operator (pipe, redirect, `;`, `&`, newline, backtick or `$(`) in a command line, or null
+ */
+export function findShellOperator(input: string): string | null {
+  let found: string | null = null;
+  scan(input, operator => {
+    if (found === null) {
+      found = operator;
+    }
+  });
+  return found;
+}
+
+/**
+ * The first unquoted expansion (`$`, `$'`, `$"`, a glob, a brace list, a leading `~`) or `#` comment
+ * in a command line, or null. The shell would run something other than the words it was given.
+ */
+export function findShellExpansion(input: string): string | null {
+  let found: string | null = null;
+  scan(input, undefined, expansion => {
+    if (found === null) {
+      found = expansion;
+    }
+  });
+  return found;
+}
+
+/**
+ * The argv a remote command runs as: its words, then the request's arguments taken literally.
+ * The command policy and the sandbox both split commands this way.
+ */
+export function buildCommandArgv(command: string, args: string[] = []): string[] {
+  return [...tokenizeCommandLine(command), ...args];
+}
+
+/**
+ * Split `--name=value` arguments into `--name` and `value`, so flags reach the dashboard
+ * the same way however they were typed. Arguments after a bare `--` are left alone.
+ */
+export function expandFlagValues(args: string[]): string[] {
+  const expanded: string[] = [];
+  let optionsEnded = false;
+
+  for (const arg of args) {
+    const match = optionsEnded ? null : arg.match(/^(--[A-Za-z][\w-]*)=([\s\S]*)$/);
+    if (match) {
+      expanded.push(match[1], match[2]);
+    } else {
+      expanded.push(arg);
+    }
+    if (arg === '--') {
+      optionsEnded = true;
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Tokenize an Echo command line: shell-style words with `--name=value` flags split in two
+ */
+export function tokenizeEchoCommand(input: string): string[] {
+  return expandFlagValues(tokenizeCommandLine(input));
+}
+
+/**
+ * Quote a word so that tokenizeCommandLine (or /bin/sh) reads it back unchanged
+ */
+export function quoteArgument(word: string): string {
+  return /^[\w@%+=:,./-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Join arguments into a command line that tokenizes back to the same arguments
+ */
+export function formatCommandLine(args: string[]): string {
+  return args.map(quoteArgument).join(' ');
+}
+
+/**
+ * Command line for `spawn(..., { shell: true })` with the arguments quoted, so they stay
+ * literal like in buildCommandArgv instead of being read as shell syntax
+ */
+export function formatShellCommand(command: string, args: string[] = []): string {
+  if (args.length === 0) {
+    return command;
+  }
+  // cmd.exe doesn't understand POSIX quoting
+  return `${command} ${process.platform === 'win32' ? args.join(' ') : formatCommandLine(args)}`;
+}